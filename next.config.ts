@@ -2,10 +2,12 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
     // Allow external scripts for PDF.js CDN if needed (usually handled by browser)
-    webpack: (config) => {
-        config.resolve.alias.canvas = false;
+    webpack: (config, { isServer }) => {
+        if (!isServer) config.resolve.alias.canvas = false;
         return config;
     },
+    // Loaded by Node at runtime, not bundled: server-side PDF rendering (lib/pdf-node.ts)
+    serverExternalPackages: ["pdfjs-dist", "@napi-rs/canvas"],
     experimental: {
         serverActions: {
             bodySizeLimit: "50mb",
@@ -1,21 +1,18 @@
 'use server'
 
-import { runExtractionPipeline } from "@/lib/pipeline";
-import { CleanExtractionSchema } from "@/lib/schema";
+import { CorrectionSchema } from "@/lib/schema";
+import { getJobQueue, JobOptions } from "@/lib/jobs";
+import { DocumentInfo, getExtractionRepository } from "@/lib/history";
+import type { TextItem } from "@/lib/pdf-processor";
 
 /**
- * Server Action to process financial document images using Gemini Vision.
- * 
- * Features:
- * 1. Validates input (max 5 images).
- * 2. Calls Google Gemini 1.5 Flash with a structured prompt.
- * 3. Enforces strict Zod schema validation on the output.
- * 
- * @param images - Array of base64 image strings.
- * @param textData - Array of text items with coordinates.
- * @returns ValidationResult - Success flag, data object, or error message.
+ * Server Action that queues the pipeline as a background job and returns at once.
+ * Progress and the result stream from /api/jobs/[id]/events.
+ * With `document` set, the result is also saved to the history under the job ID.
+ *
+ * @returns Success flag and the job ID, or an error message.
  */
-export async function processFinancialStatement(images: string[], textData: any[]) {
+export async function submitExtractionJob(images: string[], textData: TextItem[], options: JobOptions = {}, document?: DocumentInfo) {
     try {
         if (!images || images.length === 0) {
             return { success: false, error: "No images provided." };
@@ -24,26 +21,76 @@ export async function processFinancialStatement(images: string[], textData: any[
         // Limit: Process max 5 pages to avoid payload/timeout issues on free tier
         const limitedImages = images.slice(0, 5);
 
-        console.log(`Processing ${limitedImages.length} images with Gemini Vision...`);
+        const jobId = await getJobQueue().submit({ images: limitedImages, textData, options, document });
+        console.log(`Queued ${limitedImages.length} images as job ${jobId}`);
 
-        const data = await runExtractionPipeline(limitedImages, textData);
+        return { success: true, jobId };
 
-        // Validate with Zod
-        const validation = CleanExtractionSchema.safeParse(data);
+    } catch (error) {
+        console.error("Server Action Error:", error);
+        return { success: false, error: error instanceof Error ? error.message : "Unknown server error." };
+    }
+}
 
-        if (!validation.success) {
-            console.error("Zod Validation Error:", validation.error);
-            return {
-                success: false,
-                error: "AI returned invalid structure.",
-                raw: data // Return raw for debugging if needed
-            };
-        }
+// --- EXTRACTION HISTORY ---
+// `enabled: false` means the deployment runs with zero persistence (HISTORY_STORE=off).
 
-        return { success: true, data: validation.data };
+const failure = (error: unknown) => {
+    console.error("Server Action Error:", error);
+    return { success: false as const, error: error instanceof Error ? error.message : "Unknown server error." };
+};
 
-    } catch (error: any) {
-        console.error("Server Action Error:", error);
-        return { success: false, error: error.message || "Unknown server error." };
+export async function listExtractions() {
+    try {
+        const repository = getExtractionRepository();
+        return { success: true as const, enabled: repository !== null, items: repository ? await repository.list() : [] };
+    } catch (error) {
+        return failure(error);
+    }
+}
+
+export async function getExtraction(id: string) {
+    try {
+        const extraction = await getExtractionRepository()?.get(id);
+        if (!extraction) return { success: false as const, error: "Extraction not found." };
+        return { success: true as const, extraction };
+    } catch (error) {
+        return failure(error);
+    }
+}
+
+export async function renameExtraction(id: string, name: string) {
+    try {
+        const trimmed = name.trim();
+        if (!trimmed) return { success: false as const, error: "Name cannot be empty." };
+        const renamed = await getExtractionRepository()?.rename(id, trimmed.slice(0, 200));
+        return renamed ? { success: true as const } : { success: false as const, error: "Extraction not found." };
+    } catch (error) {
+        return failure(error);
+    }
+}
+
+export async function deleteExtraction(id: string) {
+    try {
+        const deleted = await getExtractionRepository()?.delete(id);
+        return deleted ? { success: true as const } : { success: false as const, error: "Extraction not found." };
+    } catch (error) {
+        return failure(error);
+    }
+}
+
+// Stores one reviewer correction. `saved: false` when history is off: the correction lives only in the page.
+export async function saveCorrection(id: string, correction: unknown) {
+    try {
+        const parsed = CorrectionSchema.safeParse(correction);
+        if (!parsed.success) return { success: false as const, error: "Invalid correction." };
+
+        const repository = getExtractionRepository();
+        if (!repository) return { success: true as const, saved: false };
+
+        const saved = await repository.addCorrection(id, parsed.data);
+        return saved ? { success: true as const, saved: true } : { success: false as const, error: "Extraction not found." };
+    } catch (error) {
+        return failure(error);
     }
 }
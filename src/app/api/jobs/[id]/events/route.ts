@@ -0,0 +1,54 @@
+import { getJobQueue, JobEvent } from "@/lib/jobs";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Server-Sent Events stream of one job: "progress" events (replayed from the start),
+ * then a final "done" (the CleanExtraction) or "failed" event, after which the stream closes.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const queue = getJobQueue();
+
+    if (!(await queue.get(id))) {
+        return Response.json({ error: `Unknown job ${id}` }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    let closed = false;
+    let unsubscribe: (() => void) | undefined;
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            const close = () => {
+                if (closed) return;
+                closed = true;
+                unsubscribe?.();
+                controller.close();
+            };
+
+            const send = (event: JobEvent) => {
+                if (closed) return;
+                const data = event.type === "progress" ? event.progress : event.type === "done" ? event.result : { error: event.error };
+                controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`));
+                if (event.type !== "progress") close();
+            };
+
+            request.signal.addEventListener("abort", close);
+            unsubscribe = await queue.subscribe(id, send);
+            if (closed) unsubscribe?.(); // finished job: everything was replayed during subscribe
+        },
+        cancel() {
+            closed = true;
+            unsubscribe?.();
+        }
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive"
+        }
+    });
+}
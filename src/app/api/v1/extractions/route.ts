@@ -0,0 +1,51 @@
+import { checkApiKey } from "@/lib/api/auth";
+import { readExtractionUpload } from "@/lib/api/extractions";
+import { getJobQueue, waitForJob } from "@/lib/jobs";
+import { renderPdf, RenderedPdf } from "@/lib/pdf-node";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/v1/extractions: multipart PDF in, CleanExtraction JSON out (see lib/api/openapi.ts).
+ * The PDF is rendered here instead of in a browser, then runs as a job like any upload from the UI.
+ */
+export async function POST(request: Request) {
+    const auth = checkApiKey(request);
+    if (!auth.ok) return Response.json({ error: auth.error }, { status: auth.status });
+
+    let form: FormData;
+    try {
+        form = await request.formData();
+    } catch {
+        return Response.json({ error: "Expected a multipart/form-data body." }, { status: 400 });
+    }
+
+    const upload = await readExtractionUpload(form);
+    if (!upload.ok) return Response.json({ error: upload.error }, { status: upload.status });
+
+    let rendered: RenderedPdf;
+    try {
+        rendered = await renderPdf(upload.data, { maxPages: Number(process.env.API_MAX_PAGES) || 5 });
+    } catch (error) {
+        console.warn("[API] Could not read PDF:", error);
+        return Response.json({ error: "The PDF could not be read." }, { status: 422 });
+    }
+
+    try {
+        const queue = getJobQueue();
+        const id = await queue.submit({
+            images: rendered.images,
+            textData: rendered.textData,
+            options: upload.options,
+            document: { fileName: upload.fileName, fileHash: upload.fileHash, pageCount: rendered.pageCount }
+        });
+        console.log(`[API] ${upload.fileName}: job ${id} (${rendered.images.length} of ${rendered.pageCount} pages)`);
+
+        const result = await waitForJob(queue, id);
+        return Response.json(result, { headers: { "X-Extraction-Id": id } });
+    } catch (error) {
+        console.error("[API] Extraction failed:", error);
+        return Response.json({ error: error instanceof Error ? error.message : "Extraction failed." }, { status: 500 });
+    }
+}
@@ -0,0 +1,6 @@
+import { openApiDocument } from "@/lib/api/openapi";
+
+// Public on purpose: integrators read it before they have a key
+export function GET() {
+    return Response.json(openApiDocument);
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { deleteExtraction, listExtractions, renameExtraction } from '@/app/actions';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, ArrowLeft, FolderOpen, Layers, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ExtractionSummary } from '@/lib/history';
+
+const MODE_LABELS: Record<string, string> = { llm: 'AI', deterministic: 'Rules' };
+
+export default function HistoryPage() {
+    const [items, setItems] = useState<ExtractionSummary[]>([]);
+    const [enabled, setEnabled] = useState(true);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [editing, setEditing] = useState<{ id: string, name: string } | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set()); // reports to merge into one series
+
+    const toggleSelected = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
+    const showList = (result: Awaited<ReturnType<typeof listExtractions>>) => {
+        if (result.success) {
+            setItems(result.items);
+            setEnabled(result.enabled);
+        } else {
+            setError(result.error);
+        }
+        setLoading(false);
+    };
+
+    const load = async () => showList(await listExtractions());
+
+    useEffect(() => {
+        listExtractions().then(showList);
+    }, []);
+
+    const handleRename = async () => {
+        if (!editing) return;
+        const result = await renameExtraction(editing.id, editing.name);
+        if (!result.success) {
+            setError(result.error);
+            return;
+        }
+        setEditing(null);
+        await load();
+    };
+
+    const handleDelete = async (item: ExtractionSummary) => {
+        if (!window.confirm(`Delete "${item.name}"? This cannot be undone.`)) return;
+        const result = await deleteExtraction(item.id);
+        if (!result.success) setError(result.error);
+        setSelected(prev => new Set([...prev].filter(id => id !== item.id)));
+        await load();
+    };
+
+    return (
+        <div className="container mx-auto p-8 max-w-5xl space-y-8">
+            <div className="flex items-center justify-between">
+                <h1 className="text-3xl font-extrabold tracking-tight text-slate-900">Extraction History</h1>
+                <Link href="/">
+                    <Button variant="outline" className="gap-2 shadow-sm">
+                        <ArrowLeft className="h-4 w-4" /> New Document
+                    </Button>
+                </Link>
+            </div>
+
+            {error && (
+                <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Something went wrong</AlertTitle>
+                    <AlertDescription>{error}</AlertDescription>
+                </Alert>
+            )}
+
+            {!enabled && (
+                <Alert>
+                    <AlertTitle>History is turned off</AlertTitle>
+                    <AlertDescription>
+                        This deployment keeps nothing after an extraction finishes (zero persistence).
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            {enabled && (
+                <Card className="shadow-lg border-slate-200">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 bg-slate-50/50 border-b">
+                        <CardTitle>Past Extractions</CardTitle>
+                        {selected.size >= 2 ? (
+                            <Link href={`/?merge=${[...selected].join(',')}`}>
+                                <Button className="gap-2 shadow-sm">
+                                    <Layers className="h-4 w-4" /> Merge {selected.size} reports
+                                </Button>
+                            </Link>
+                        ) : (
+                            <span className="text-xs text-slate-400">Select two or more reports of one company to merge them</span>
+                        )}
+                    </CardHeader>
+                    <CardContent className="p-0">
+                        {loading ? (
+                            <div className="flex justify-center p-8">
+                                <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+                            </div>
+                        ) : items.length === 0 ? (
+                            <p className="p-8 text-center text-sm text-slate-500">No extractions yet.</p>
+                        ) : (
+                            <Table>
+                                <TableHeader className="bg-slate-50">
+                                    <TableRow>
+                                        <TableHead className="w-[40px]"><span className="sr-only">Merge</span></TableHead>
+                                        <TableHead>Name</TableHead>
+                                        <TableHead>Date</TableHead>
+                                        <TableHead>Pages</TableHead>
+                                        <TableHead>Records</TableHead>
+                                        <TableHead>Model</TableHead>
+                                        <TableHead className="w-[160px] text-right">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {items.map(item => (
+                                        <TableRow key={item.id}>
+                                            <TableCell>
+                                                <input
+                                                    type="checkbox"
+                                                    aria-label={`Merge ${item.name}`}
+                                                    checked={selected.has(item.id)}
+                                                    onChange={() => toggleSelected(item.id)}
+                                                />
+                                            </TableCell>
+                                            <TableCell className="font-medium text-slate-700">
+                                                {editing?.id === item.id ? (
+                                                    <form onSubmit={(e) => { e.preventDefault(); handleRename(); }} className="flex gap-2">
+                                                        <input
+                                                            autoFocus
+                                                            aria-label="Name"
+                                                            value={editing.name}
+                                                            onChange={(e) => setEditing({ id: item.id, name: e.target.value })}
+                                                            onKeyDown={(e) => e.key === 'Escape' && setEditing(null)}
+                                                            className="h-8 flex-1 rounded-md border border-input bg-background px-2 text-sm shadow-sm"
+                                                        />
+                                                        <Button type="submit" size="sm">Save</Button>
+                                                    </form>
+                                                ) : (
+                                                    <div className="flex flex-col">
+                                                        <span>{item.name}</span>
+                                                        {item.name !== item.fileName && (
+                                                            <span className="text-xs font-normal text-slate-400">{item.fileName}</span>
+                                                        )}
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-slate-600">{new Date(item.createdAt).toLocaleString()}</TableCell>
+                                            <TableCell className="text-slate-600">{item.pageCount}</TableCell>
+                                            <TableCell className="text-slate-600">{item.recordCount}</TableCell>
+                                            <TableCell className="text-slate-600">
+                                                {item.model ?? 'None'}
+                                                {item.mode && <span className="text-xs text-slate-400"> ({MODE_LABELS[item.mode] ?? item.mode})</span>}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                <div className="flex justify-end gap-1">
+                                                    <Link href={`/?id=${item.id}`}>
+                                                        <Button variant="ghost" size="sm" aria-label="Open" title="Open">
+                                                            <FolderOpen className="h-4 w-4" />
+                                                        </Button>
+                                                    </Link>
+                                                    <Button variant="ghost" size="sm" aria-label="Rename" title="Rename" onClick={() => setEditing({ id: item.id, name: item.name })}>
+                                                        <Pencil className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button variant="ghost" size="sm" aria-label="Delete" title="Delete" onClick={() => handleDelete(item)}>
+                                                        <Trash2 className="h-4 w-4 text-red-600" />
+                                                    </Button>
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
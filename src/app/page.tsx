@@ -1,17 +1,176 @@
 'use client';
 // Triggering rebuild after file restoration
 
-import { useState } from 'react';
-import { convertPdfToImages, extractTextWithCoordinates } from '@/lib/pdf-processor';
-import { processFinancialStatement } from '@/app/actions';
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { convertPdfToImages, extractTextWithCoordinates, hashFile, RENDER_SCALE } from '@/lib/pdf-processor';
+import { getExtraction, saveCorrection, submitExtractionJob } from '@/app/actions';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Download, Upload, Loader2, AlertTriangle, Key } from 'lucide-react';
+import { Download, Upload, Loader2, AlertTriangle, Key, ChevronDown, ChevronRight, CheckCircle2, Circle, History, ScanSearch, X } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AccountMapping, Basis, BASIS_LABELS, BoundingBox, Category, CleanExtraction, CleanRecord, Correction, CorrectionField, Discrepancy, MergedExtraction, Period, PIPELINE_STAGE_LABELS, PipelineStage, PipelineStageSchema, ProgressEvent, RejectedValue, Restatement, Scale, ScaleSchema, StatementType, StatementTypeSchema, STATEMENT_CATEGORIES, STATEMENT_LABELS } from '@/lib/schema';
+import { convertToScale, SCALE_LABELS } from '@/lib/units';
+import { periodFromHeader, periodKey } from '@/lib/normalization';
+import { parseFinancialNumber } from '@/lib/number-parser';
+import { applyCorrections, CorrectionInput, createCorrection, formatCorrectionValue } from '@/lib/review';
+import { EXPORT_MIME_TYPES, ExportFormat, exportExtraction } from '@/lib/export';
+import { MergeInput, mergeExtractions } from '@/lib/merge';
+import { ACCOUNTS_BY_ID, accountsFor } from '@/lib/taxonomy';
+import { PivotRow, pivotRecords } from '@/lib/pivot';
+import type { PipelineOptions } from '@/lib/pipeline';
+
+
+const FISCAL_YEAR_END_MONTHS = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// How the document is read: the LLM, rules only, or rules with the LLM for what they cannot decide
+const EXTRACTION_MODES: { value: string, label: string, options: Pick<PipelineOptions, 'mode' | 'fallback'> }[] = [
+    { value: 'llm', label: 'AI (vision + layout)', options: { mode: 'llm' } },
+    { value: 'deterministic', label: 'Rules only (no AI)', options: { mode: 'deterministic', fallback: 'review' } },
+    { value: 'deterministic-llm', label: 'Rules, AI when unsure', options: { mode: 'deterministic', fallback: 'llm' } },
+];
+
+// Share of the progress bar each pipeline stage fills (reading the PDF in the browser takes the first 20%)
+const STAGE_WEIGHTS: Record<PipelineStage, number> = {
+    detection: 35, layout: 10, classification: 35, normalization: 10, validation: 10
+};
+
+const pipelineProgress = (stages: Partial<Record<PipelineStage, ProgressEvent>>) => {
+    const done = PipelineStageSchema.options.reduce((sum, stage) => {
+        const event = stages[stage];
+        if (!event) return sum;
+        const fraction = event.status === 'done' ? 1 : (event.total ? (event.current ?? 0) / event.total : 0);
+        return sum + STAGE_WEIGHTS[stage] * fraction;
+    }, 0);
+    return Math.round(20 + 0.8 * done);
+};
+
+// Follows a job's Server-Sent Events until it finishes (see /api/jobs/[id]/events)
+const followJob = (jobId: string, onProgress: (event: ProgressEvent) => void) =>
+    new Promise<CleanExtraction>((resolve, reject) => {
+        const source = new EventSource(`/api/jobs/${jobId}/events`);
+        source.addEventListener('progress', (e) => onProgress(JSON.parse((e as MessageEvent).data)));
+        source.addEventListener('done', (e) => {
+            source.close();
+            resolve(JSON.parse((e as MessageEvent).data));
+        });
+        source.addEventListener('failed', (e) => {
+            source.close();
+            reject(new Error(JSON.parse((e as MessageEvent).data).error));
+        });
+        // The browser reconnects on its own; a closed source means the job is gone (e.g. server restart)
+        source.onerror = () => {
+            if (source.readyState === EventSource.CLOSED) reject(new Error('Lost connection to the extraction job.'));
+        };
+    });
+
+const CORRECTION_FIELD_LABELS: Record<CorrectionField, string> = {
+    value: 'Value', lineItem: 'Label', category: 'Category', period: 'Period', account: 'Account'
+};
+
+// Account picker entry for "no standard account"
+const NO_ACCOUNT = 'No standard account';
+
+// Click-to-edit text (or a choice from `options`). Enter saves, Escape or leaving the field cancels.
+function InlineEdit({ value, label, options, disabled, onSave, children }: {
+    value: string,
+    label: string,
+    options?: readonly string[],
+    disabled?: boolean,
+    onSave: (text: string) => void,
+    children: React.ReactNode
+}) {
+    const [draft, setDraft] = useState<string | null>(null);
+
+    if (disabled) return <>{children}</>;
+
+    if (draft === null) {
+        return (
+            <button type="button" title={`Edit ${label}`} onClick={() => setDraft(value)} className="cursor-text hover:underline hover:decoration-dotted">
+                {children}
+            </button>
+        );
+    }
 
-import * as XLSX from 'xlsx';
+    const save = (text: string) => {
+        setDraft(null);
+        if (text.trim() !== value) onSave(text.trim());
+    };
+
+    if (options) {
+        return (
+            <select
+                autoFocus
+                aria-label={label}
+                value={draft}
+                onChange={(e) => save(e.target.value)}
+                onBlur={() => setDraft(null)}
+                className="h-7 rounded-md border border-input bg-background px-1 text-xs"
+            >
+                {options.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+        );
+    }
+
+    return (
+        <input
+            autoFocus
+            aria-label={label}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') save(draft);
+                if (e.key === 'Escape') setDraft(null);
+            }}
+            onBlur={() => setDraft(null)}
+            className="h-7 w-full min-w-[6rem] rounded-md border border-input bg-background px-2 text-sm font-normal shadow-sm"
+        />
+    );
+}
+
+// One row's label and value cells outlined on the page image (PDF points, origin bottom-left -> image pixels)
+function SourcePreview({ image, boxes }: { image: string, boxes: BoundingBox[] }) {
+    const [size, setSize] = useState<{ width: number, height: number } | null>(null);
+    const firstBox = useRef<HTMLDivElement>(null);
+    const percent = (points: number, pixels: number) => `${(points * RENDER_SCALE / pixels) * 100}%`;
+
+    // Bring the outlined row into view once the page has loaded
+    useEffect(() => {
+        firstBox.current?.scrollIntoView({ block: 'center' });
+    }, [size]);
+
+    return (
+        <div className="max-h-[420px] overflow-auto rounded-md border">
+            <div className="relative">
+                {/* eslint-disable-next-line @next/next/no-img-element -- an in-memory page render, nothing to optimize */}
+                <img
+                    src={`data:image/jpeg;base64,${image}`}
+                    alt="Source page"
+                    className="w-full"
+                    onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                />
+                {size && boxes.map((box, i) => (
+                    <div
+                        key={i}
+                        ref={i === 0 ? firstBox : undefined}
+                        className="absolute rounded-sm ring-2 ring-sky-500 bg-sky-400/20"
+                        style={{
+                            left: percent(box.x, size.width),
+                            top: `${((size.height - (box.y + box.height) * RENDER_SCALE) / size.height) * 100}%`,
+                            width: percent(box.width, size.width),
+                            height: percent(box.height, size.height),
+                        }}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+}
 
 export default function App() {
     const [loading, setLoading] = useState(false);
@@ -20,13 +179,62 @@ export default function App() {
     const [data, setData] = useState<any>(null);
     const [error, setError] = useState<string | null>(null);
     const [userKey, setUserKey] = useState('');
-    const [pdfFile, setPdfFile] = useState<File | null>(null);
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [targetScale, setTargetScale] = useState<Scale | 'reported'>('reported');
+    const [fiscalYearEndMonth, setFiscalYearEndMonth] = useState(3); // March (Indian filings)
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [activeBasis, setActiveBasis] = useState<Basis | null>(null);
+    const [extractionMode, setExtractionMode] = useState('llm');
+    const [stages, setStages] = useState<Partial<Record<PipelineStage, ProgressEvent>>>({});
+    const [extractionId, setExtractionId] = useState<string | null>(null); // history ID, for saving corrections
+    const [reviewer, setReviewer] = useState('');
+    const [reviewError, setReviewError] = useState<string | null>(null);
+    const [includeCorrections, setIncludeCorrections] = useState(false);
+    const [pageImages, setPageImages] = useState<Record<string, string[]>>({}); // page renders by file name, for source previews
+    const [source, setSource] = useState<{ lineItem: string, document: string | null, labelBox: BoundingBox | null, valueBoxes: BoundingBox[] } | null>(null);
+
+    // Reopen a past extraction from the history page (/?id=<extraction id>)
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const id = params.get('id');
+        const mergeIds = params.get('merge')?.split(',').filter(Boolean) ?? [];
+
+        // Or merge several (/?merge=<id>,<id>): one series, latest report first
+        if (mergeIds.length > 0) {
+            Promise.all(mergeIds.map(getExtraction)).then(results => {
+                const failed = results.find(result => !result.success);
+                if (failed && !failed.success) {
+                    setError(failed.error);
+                    return;
+                }
+                const inputs = results.flatMap(result => result.success ? [{ name: result.extraction.name, extraction: result.extraction.result }] : []);
+                setFileName(`${inputs.length} reports`);
+                setData(mergeExtractions(inputs));
+                setStatus(`Merged ${inputs.length} reports from history`);
+                setProgress(100);
+            });
+            return;
+        }
+        if (!id) return;
+
+        getExtraction(id).then(result => {
+            if (result.success) {
+                setFileName(result.extraction.name);
+                setExtractionId(id);
+                setData(result.extraction.result);
+                setStatus(`Reopened "${result.extraction.name}" from history`);
+                setProgress(100);
+            } else {
+                setError(result.error);
+            }
+        });
+    }, []);
 
     const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (!file) return;
+        const files = Array.from(e.target.files ?? []);
+        if (files.length === 0) return;
 
-        setPdfFile(file);
+        setFileName(files.length === 1 ? files[0].name : `${files.length} reports`);
 
         // Optional: Validation for API Key if env is missing (for reviewer)
         // For now we assume env is set or we proceed.
@@ -36,29 +244,55 @@ export default function App() {
         setStatus('Reading PDF pages...');
         setError(null);
         setData(null);
+        setExtractionId(null);
+        setSource(null);
+        setStages({});
 
         try {
-            // 1. Convert PDF to Images & Extract Text Layout
-            const imagesPromise = convertPdfToImages(file);
-            const textDataPromise = extractTextWithCoordinates(file);
-
-            const [images, textData] = await Promise.all([imagesPromise, textDataPromise]);
-
-            setProgress(40);
-            setStatus(`Analyzing ${images.length} pages via Hybrid Engine...`);
-
-            // 2. Send to Server Action
-            // Note: In real app, we might pass userKey if we wanted BYO-Key support
-            const result = await processFinancialStatement(images, textData);
+            // Several PDFs: each report is extracted on its own, then merged into one series
+            const extracted: MergeInput[] = [];
+            const images: Record<string, string[]> = {};
+
+            for (const [i, file] of files.entries()) {
+                const prefix = files.length > 1 ? `${file.name} (${i + 1}/${files.length}): ` : '';
+                const overall = (percent: number) => Math.round((i * 100 + percent) / files.length);
+                setStages({});
+
+                // 1. Convert PDF to Images & Extract Text Layout
+                const imagesPromise = convertPdfToImages(file);
+                const textDataPromise = extractTextWithCoordinates(file);
+
+                const [pages, textData, fileHash] = await Promise.all([imagesPromise, textDataPromise, hashFile(file)]);
+                images[file.name] = pages;
+                setPageImages({ ...images });
+
+                setProgress(overall(20));
+                setStatus(`${prefix}Analyzing ${pages.length} pages via Hybrid Engine...`);
+
+                // 2. Queue the job, then follow its progress stage by stage
+                // Note: In real app, we might pass userKey if we wanted BYO-Key support
+                const modeOptions = EXTRACTION_MODES.find(m => m.value === extractionMode)?.options;
+                const document = { fileName: file.name, fileHash, pageCount: pages.length };
+                const submitted = await submitExtractionJob(pages, textData, { fiscalYearEndMonth, ...modeOptions }, document);
+                if (!submitted.success || !submitted.jobId) throw new Error(submitted.error);
+
+                const stageProgress: Partial<Record<PipelineStage, ProgressEvent>> = {};
+                const result = await followJob(submitted.jobId, (event) => {
+                    stageProgress[event.stage] = event;
+                    setStages({ ...stageProgress });
+                    setProgress(overall(pipelineProgress(stageProgress)));
+                    setStatus(`${prefix}${PIPELINE_STAGE_LABELS[event.stage]}: ${event.message}`);
+                });
 
-            if (result.success) {
-                setProgress(100);
-                setStatus('Analysis Complete!');
-                setData(result.data);
-            } else {
-                throw new Error(result.error);
+                extracted.push({ name: file.name, extraction: result });
+                // History saves the result under the job ID; a merged series is not saved
+                setExtractionId(files.length === 1 ? submitted.jobId : null);
             }
 
+            setProgress(100);
+            setStatus(files.length === 1 ? 'Analysis Complete!' : `Merged ${files.length} reports`);
+            setData(files.length === 1 ? extracted[0].extraction : mergeExtractions(extracted));
+
         } catch (err: any) {
             console.error(err);
             setError(err.message || "Failed to process document.");
@@ -70,92 +304,173 @@ export default function App() {
 
     const handleReset = () => {
         setData(null);
-        setPdfFile(null);
+        setFileName(null);
+        setExtractionId(null);
+        setReviewError(null);
+        setPageImages({});
+        setSource(null);
+        window.history.replaceState(null, '', '/');
+        setTargetScale('reported');
+        setCollapsed(new Set());
+        setActiveBasis(null);
+        setStages({});
         setStatus('');
         setProgress(0);
         setError(null);
         setLoading(false);
     };
 
-    const handleDownloadExcel = () => {
+    // Exports follow the view: corrected, in the scale the analyst picked
+    const handleExport = (format: ExportFormat) => {
         if (!data || !data.records) return;
 
-        const { headers, rows } = getPivotedData();
+        const content = exportExtraction(data, format, {
+            fileName,
+            scale: targetScale === 'reported' ? undefined : targetScale,
+            includeCorrections,
+        });
+        const blob = new Blob([content as BlobPart], { type: EXPORT_MIME_TYPES[format] });
+        const baseName = fileName ? fileName.replace(/\.pdf$/i, '') : 'Extracted_Financials';
+
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `${baseName}.${format}`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+    };
 
-        // Flatten for Excel
-        const excelData = rows.map((r: any) => {
-            const flat: any = {
-                Particulars: r.lineItem,
-                Category: r.category,
-                SubCategory: r.subCategory || '',
-                Unit: r.unit || '',
-                Confidence: r.confidence
-            };
+    // Several reports merged into one series (see lib/merge.ts)
+    const merged: MergedExtraction | null = data?.restatements ? data : null;
 
-            // Add years at the end
-            headers.forEach((h: any) => flat[h] = r[h]);
+    // Reviewer edits become corrections on top of the extracted records (see lib/review.ts).
+    // Values are edited as reported: a converted scale would have to be converted back.
+    // A merged series is read-only: it is rebuilt from its reports, which is where corrections belong.
+    const canEdit = reviewer.trim().length > 0 && targetScale === 'reported' && !merged;
 
+    const handleCorrection = async (input: CorrectionInput<'id' | 'at' | 'reviewer'>) => {
+        const correction = createCorrection({ ...input, reviewer: reviewer.trim() });
+        setData({ ...data, corrections: [...(data.corrections ?? []), correction] });
+        setReviewError(null);
+        if (!extractionId) return;
 
-            return flat;
-        });
+        const saved = await saveCorrection(extractionId, correction);
+        if (!saved.success) setReviewError(`Correction not saved to history: ${saved.error}`);
+    };
 
-        const wb = XLSX.utils.book_new();
+    const correctValue = (recordId: number, current: number | null, text: string) => {
+        // Empty clears the value; "-" or "Nil" is zero, as printed in statements
+        const parsed = text === '' ? null : parseFinancialNumber(text);
+        if (parsed && !parsed.ok) {
+            setReviewError(`"${text}" is not a number: ${parsed.reason}.`);
+            return;
+        }
+        const to = parsed ? parsed.value : null;
+        if (to !== current) handleCorrection({ recordIds: [recordId], field: 'value', from: current, to });
+    };
 
-        // 1. Summary Sheet (Metadata)
-        const summaryData = [
-            { Key: "File Name", Value: pdfFile?.name || "Unknown" },
-            { Key: "Extraction Date", Value: new Date().toLocaleDateString() },
-            { Key: "AI Model", Value: "Gemini 1.5 Flash (Vision)" },
-            { Key: "Confidence Score", Value: "Based on AI Analysis" }
-        ];
-        const wsSummary = XLSX.utils.json_to_sheet(summaryData);
-        XLSX.utils.book_append_sheet(wb, wsSummary, "Summary");
+    const correctPeriod = (recordIds: number[], current: Period, text: string) => {
+        const parsed = periodFromHeader(text, fiscalYearEndMonth);
+        if (!parsed) {
+            setReviewError(`"${text}" names no period. Try "Quarter ended 31.12.2024" or "FY 2023-24".`);
+            return;
+        }
+        const period = { ...parsed, audited: parsed.audited ?? current.audited };
+        if (JSON.stringify(period) !== JSON.stringify(current)) handleCorrection({ recordIds, field: 'period', from: current, to: period });
+    };
 
-        // 2. Data Sheet
-        const wsData = XLSX.utils.json_to_sheet(excelData);
-        XLSX.utils.book_append_sheet(wb, wsData, "Financials");
+    const correctAccount = (recordIds: number[], current: AccountMapping | null, statementType: StatementType, name: string) => {
+        const to = accountsFor(statementType).find(a => a.name === name)?.id ?? null;
+        if (to !== (current?.id ?? null)) handleCorrection({ recordIds, field: 'account', from: current?.id ?? null, to });
+    };
 
-        XLSX.writeFile(wb, "Extracted_Financials.xlsx");
+    // The extraction as reviewed, then amounts as reported or all converted to the scale the analyst picked
+    const reviewed: CleanExtraction | null = data?.records ? applyCorrections(data) : null;
+    const records: CleanRecord[] = reviewed
+        ? (targetScale === 'reported' ? reviewed.records : convertToScale(reviewed.records, targetScale))
+        : [];
+    const discrepancies = reviewed?.discrepancies ?? [];
+    // Both keep record order, so a record's position is its ID
+    const recordIds = new Map(records.map((r, i) => [r, i]));
+    const correctedValues = new Set<number>((data?.corrections ?? [])
+        .filter((c: Correction) => c.field === 'value')
+        .flatMap((c: Correction) => c.recordIds));
+
+    // Standalone / Consolidated (null: the document does not say), in document order
+    const bases: (Basis | null)[] = Array.from(new Set(records.map(r => r.basis ?? null)));
+    const shownBasis = bases.includes(activeBasis) ? activeBasis : (bases[0] ?? null);
+
+    // One pivot per basis and statement (Income Statement, Balance Sheet, Cash Flow), skipping empty ones
+    const sections = bases
+        .flatMap(basis => StatementTypeSchema.options.map(statementType => ({
+            basis,
+            statementType,
+            ...pivotRecords(records.filter(r => (r.basis ?? null) === basis && r.statementType === statementType), recordIds)
+        })))
+        .filter(section => section.rows.length > 0);
+
+    // Cells of the row shown in the source panel, label first
+    const sourceBoxes = source ? [
+        ...(source.labelBox ? [{ kind: 'Label', box: source.labelBox }] : []),
+        ...source.valueBoxes.map(box => ({ kind: 'Value', box })),
+    ] : [];
+    const sourcePage = sourceBoxes[0]?.box.page ?? 1;
+    const sourceImages = source ? pageImages[source.document ?? fileName ?? ''] ?? [] : [];
+
+    const sectionKey = (basis: Basis | null, statementType: StatementType) => `${basis}|${statementType}`;
+
+    // Restated figures by cell: statement, basis, line item and period
+    const cellKey = (statementType: StatementType, basis: Basis | null, lineItem: string, period: Period) =>
+        `${sectionKey(basis, statementType)}|${lineItem}|${periodKey(period)}`;
+    const restated = new Map<string, Restatement[]>();
+    merged?.restatements.forEach(r => {
+        const key = cellKey(r.statementType, r.basis ?? null, r.lineItem, r.period);
+        restated.set(key, [...(restated.get(key) ?? []), r]);
+    });
+    const describeRestatement = (r: Restatement) =>
+        `${r.original.value?.toLocaleString() ?? '-'} in ${r.original.document} (page ${r.original.page}) → ${r.restated.value?.toLocaleString() ?? '-'} in ${r.restated.document} (page ${r.restated.page})`;
+
+    // Collapsible groups: key of a parent heading within its section
+    const groupKey = (section: string, label: string) => `${section}|${label}`;
+
+    const toggleGroup = (key: string) => {
+        setCollapsed(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key); else next.add(key);
+            return next;
+        });
     };
 
-    // Helper to pivot data for display
-    // Helper to pivot data for display
-    const getPivotedData = () => {
-        if (!data || !data.records) return { headers: [], rows: [] };
-
-        // 1. Get all unique years (sorted descending)
-        const years = Array.from(new Set(data.records.map((r: any) => r.year))).sort().reverse();
-
-        // 2. Group records by key (Category + SubCategory + LineItem) to merge years into one row
-        const grouped = new Map();
-
-        data.records.forEach((r: any) => {
-            const key = `${r.category}-${r.subCategory}-${r.lineItem}`;
-            if (!grouped.has(key)) {
-                grouped.set(key, {
-                    category: r.category,
-                    subCategory: r.subCategory,
-                    lineItem: r.lineItem,
-                    confidence: r.confidence,
-                    unit: r.unit,
-                    // Initialize years with '-'
-                    ...Object.fromEntries(years.map((y: any) => [y, '-']))
-                });
+    // Flattens pivot rows for display: adds heading rows for parents that carry no values
+    // (e.g. "Expenses") and hides rows under a collapsed parent.
+    const buildDisplayRows = (section: string, rows: PivotRow[]) => {
+        const lineItems = new Set(rows.map(r => r.lineItem));
+        const parents = new Set(rows.map(r => r.subCategory).filter(Boolean));
+        const display: ({ label: string, level: number, isParent: boolean } & ({ kind: 'group' } | { kind: 'row', row: PivotRow }))[] = [];
+        const stack: { label: string, level: number }[] = [];
+
+        const isHidden = () => stack.some(p => collapsed.has(groupKey(section, p.label)));
+        const popTo = (level: number) => {
+            while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+        };
+
+        rows.forEach(row => {
+            popTo(row.level);
+
+            if (row.subCategory && stack[stack.length - 1]?.label !== row.subCategory && !lineItems.has(row.subCategory)) {
+                const level = Math.max(0, row.level - 1);
+                popTo(level);
+                if (!isHidden()) display.push({ kind: 'group', label: row.subCategory, level, isParent: true });
+                stack.push({ label: row.subCategory, level });
             }
-            // Update the specific year value
-            const entry = grouped.get(key);
-            entry[r.year] = r.value;
-            // conservative confidence (if any value is low, row is low - optional logic, keeping simple for now)
-            if (r.confidence === 'Low') entry.confidence = 'Low';
-        });
 
-        const rows = Array.from(grouped.values());
+            const isParent = parents.has(row.lineItem);
+            if (!isHidden()) display.push({ kind: 'row', label: row.lineItem, level: row.level, isParent, row });
+            if (isParent) stack.push({ label: row.lineItem, level: row.level });
+        });
 
-        return { headers: years, rows };
+        return display;
     };
 
-    const { headers, rows } = getPivotedData();
-
     return (
         <div className="container mx-auto p-8 max-w-5xl space-y-8">
             <div className="text-center space-y-2">
@@ -165,11 +480,42 @@ export default function App() {
                 </p>
             </div>
 
+            <div className="flex items-center justify-end gap-2 text-sm text-slate-600">
+                <Link href="/history" className="mr-auto inline-flex items-center gap-1 hover:text-slate-900">
+                    <History className="h-4 w-4" /> History
+                </Link>
+                <label htmlFor="extraction-mode">Extraction</label>
+                <select
+                    id="extraction-mode"
+                    value={extractionMode}
+                    onChange={(e) => setExtractionMode(e.target.value)}
+                    disabled={loading}
+                    className="h-9 rounded-md border border-input bg-background px-3 text-sm shadow-sm"
+                >
+                    {EXTRACTION_MODES.map(mode => (
+                        <option key={mode.value} value={mode.value}>{mode.label}</option>
+                    ))}
+                </select>
+                <label htmlFor="fiscal-year-end">Fiscal year ends in</label>
+                <select
+                    id="fiscal-year-end"
+                    value={fiscalYearEndMonth}
+                    onChange={(e) => setFiscalYearEndMonth(Number(e.target.value))}
+                    disabled={loading}
+                    className="h-9 rounded-md border border-input bg-background px-3 text-sm shadow-sm"
+                >
+                    {FISCAL_YEAR_END_MONTHS.map((month, i) => (
+                        <option key={month} value={i + 1}>{month}</option>
+                    ))}
+                </select>
+            </div>
+
             <Card className="border-2 border-dashed hover:border-primary/50 transition-colors">
                 <CardContent className="p-12 flex flex-col items-center justify-center relative bg-slate-50/50 hover:bg-slate-50">
                     <input
                         type="file"
                         accept="application/pdf"
+                        multiple
                         className="absolute inset-0 opacity-0 cursor-pointer w-full h-full z-10"
                         onChange={handleUpload}
                         disabled={loading}
@@ -185,6 +531,9 @@ export default function App() {
                             <p className="text-sm text-slate-500">
                                 Drag & drop or click to browse (Max 5 pages processed for demo)
                             </p>
+                            <p className="text-xs text-slate-400">
+                                Select several annual reports of one company to merge them into one series
+                            </p>
                         </div>
                     </div>
                 </CardContent>
@@ -197,6 +546,28 @@ export default function App() {
                         <span>{progress}%</span>
                     </div>
                     <Progress value={progress} className="h-2" />
+                    {Object.keys(stages).length > 0 && (
+                        <ol className="space-y-1 pt-2 text-sm">
+                            {PipelineStageSchema.options.map(stage => {
+                                const event = stages[stage];
+                                // A stage never reached by a finished run was skipped (e.g. no table found)
+                                const skipped = !event && !loading;
+                                return (
+                                    <li key={stage} className={`flex items-center gap-2 ${event ? 'text-slate-700' : 'text-slate-400'}`}>
+                                        {event?.status === 'done' ? <CheckCircle2 className="h-4 w-4 text-green-600" />
+                                            : event && loading ? <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+                                                : <Circle className="h-4 w-4" />}
+                                        <span className="font-medium">{PIPELINE_STAGE_LABELS[stage]}</span>
+                                        {(event || skipped) && (
+                                            <span className="text-slate-500">
+                                                {skipped ? 'skipped' : event!.message}
+                                            </span>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    )}
                 </div>
             )}
 
@@ -219,61 +590,342 @@ export default function App() {
                         <div className="space-y-1">
                             <CardTitle>Extracted Financials</CardTitle>
                             <p className="text-sm text-muted-foreground">found {yearsDetected()} data points</p>
+                            {merged && (
+                                <p className="text-xs text-slate-500">
+                                    Merged from {merged.documents.map(d => `${d.name} (${d.periods.join(', ')})`).join(' · ')}
+                                </p>
+                            )}
                         </div>
                         <div className="flex gap-2">
+                            {bases.length > 1 && (
+                                <div className="flex" role="group" aria-label="Basis">
+                                    {bases.map(basis => (
+                                        <Button
+                                            key={basis ?? 'none'}
+                                            variant={basis === shownBasis ? 'default' : 'outline'}
+                                            onClick={() => setActiveBasis(basis)}
+                                            className="rounded-none first:rounded-l-md last:rounded-r-md shadow-sm"
+                                        >
+                                            {basis ? BASIS_LABELS[basis] : 'Basis not stated'}
+                                        </Button>
+                                    ))}
+                                </div>
+                            )}
+                            <select
+                                aria-label="Scale"
+                                value={targetScale}
+                                onChange={(e) => setTargetScale(e.target.value as Scale | 'reported')}
+                                className="h-9 rounded-md border border-input bg-background px-3 text-sm shadow-sm"
+                            >
+                                <option value="reported">As reported</option>
+                                {ScaleSchema.options.map(scale => (
+                                    <option key={scale} value={scale}>{SCALE_LABELS[scale]}</option>
+                                ))}
+                            </select>
                             <Button variant="outline" onClick={handleReset} className="gap-2 shadow-sm">
                                 <Upload className="h-4 w-4" /> New Document
                             </Button>
-                            <Button onClick={handleDownloadExcel} className="gap-2 shadow-sm">
+                            <Button onClick={() => handleExport('xlsx')} className="gap-2 shadow-sm">
                                 <Download className="h-4 w-4" /> Export Excel
                             </Button>
+                            <Button variant="outline" onClick={() => handleExport('csv')} className="shadow-sm">
+                                CSV
+                            </Button>
+                            <Button variant="outline" onClick={() => handleExport('json')} className="shadow-sm">
+                                JSON
+                            </Button>
                         </div>
                     </CardHeader>
                     <CardContent className="p-0">
-                        <div className="rounded-b-md">
-                            <Table>
-                                <TableHeader className="bg-slate-50">
-                                    <TableRow>
-                                        <TableHead className="w-[350px]">Particulars</TableHead>
-                                        {headers.map((year: any) => (
-                                            <TableHead key={year} className="text-right font-bold text-slate-700">{year}</TableHead>
-                                        ))}
-                                        <TableHead className="w-[100px] text-right">Confidence</TableHead>
-                                    </TableRow>
-                                </TableHeader>
-                                <TableBody>
-                                    {rows.map((row: any, i: number) => (
-                                        <TableRow key={i} className="hover:bg-slate-50/50">
-                                            <TableCell className="font-medium align-top">
-                                                <div className="flex flex-col gap-0.5">
-                                                    {row.category && (
-                                                        <span className="text-[10px] uppercase tracking-wider text-slate-400 font-bold">
-                                                            {row.category} {row.subCategory ? `› ${row.subCategory}` : ''}
-                                                        </span>
-                                                    )}
-                                                    <span className="text-sm text-slate-800">{row.lineItem}</span>
-                                                </div>
-                                            </TableCell>
-                                            {headers.map((year: any) => (
-                                                <TableCell key={year} className="text-right font-mono text-slate-600">
-                                                    {(row[year] !== '-' && row[year] !== null && row[year] !== undefined) ?
-                                                        row[year].toLocaleString() :
-                                                        '-'}
-                                                </TableCell>
+                        <div className="flex flex-wrap items-center gap-3 border-b px-4 py-2 text-sm text-slate-600">
+                            <label className="flex items-center gap-2">
+                                Reviewer
+                                <input
+                                    value={reviewer}
+                                    onChange={(e) => setReviewer(e.target.value)}
+                                    placeholder="Your name"
+                                    className="h-8 w-40 rounded-md border border-input bg-background px-2 text-sm shadow-sm"
+                                />
+                            </label>
+                            <span className="text-xs text-slate-400">
+                                {merged
+                                    ? 'Merged series are read-only: correct each report, then merge again. Latest report wins; restated figures are amber.'
+                                    : !reviewer.trim()
+                                        ? 'Enter your name to correct values, labels, categories and periods.'
+                                        : targetScale !== 'reported'
+                                            ? 'Switch to "As reported" to make corrections.'
+                                            : 'Click a value, label, category, period or standard account to correct it.'}
+                            </span>
+                            <label className="ml-auto flex items-center gap-2 text-xs">
+                                <input type="checkbox" checked={includeCorrections} onChange={(e) => setIncludeCorrections(e.target.checked)} />
+                                List corrections in exports
+                            </label>
+                        </div>
+                        {reviewError && (
+                            <p className="border-b bg-rose-50 px-4 py-2 text-xs text-rose-700">{reviewError}</p>
+                        )}
+                        {sections.filter(section => section.basis === shownBasis).map(({ basis, statementType, headers, rows }) => (
+                            <div key={sectionKey(basis, statementType)} className="rounded-b-md">
+                                <h3 className="px-4 pt-4 pb-2 text-sm font-semibold uppercase tracking-wider text-slate-500">
+                                    {basis && `${BASIS_LABELS[basis]} `}{STATEMENT_LABELS[statementType]}
+                                </h3>
+                                <Table>
+                                    <TableHeader className="bg-slate-50">
+                                        <TableRow>
+                                            <TableHead className="w-[350px]">Particulars</TableHead>
+                                            {headers.map((period: Period) => (
+                                                <TableHead key={periodKey(period)} className="text-right font-bold text-slate-700">
+                                                    <div className="flex flex-col items-end">
+                                                        <InlineEdit
+                                                            value={period.label}
+                                                            label="period"
+                                                            disabled={!canEdit}
+                                                            onSave={(text) => correctPeriod(rows.map(r => r.ids[periodKey(period)]).filter((id: number | undefined) => id !== undefined), period, text)}
+                                                        >
+                                                            {period.label}
+                                                        </InlineEdit>
+                                                        {period.audited !== null && (
+                                                            <span className="text-[10px] font-normal text-slate-400">
+                                                                {period.audited ? 'Audited' : 'Unaudited'}
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                </TableHead>
                                             ))}
-                                            <TableCell className="text-right align-top">
-                                                <div className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${row.confidence === 'High' ? 'bg-emerald-50 text-emerald-700 ring-1 ring-emerald-600/20' :
-                                                    row.confidence === 'Medium' ? 'bg-amber-50 text-amber-700 ring-1 ring-amber-600/20' :
-                                                        'bg-rose-50 text-rose-700 ring-1 ring-rose-600/20'
-                                                    }`}>
-                                                    {row.confidence}
-                                                </div>
-                                            </TableCell>
+                                            <TableHead className="w-[100px] text-right">Confidence</TableHead>
                                         </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {buildDisplayRows(sectionKey(basis, statementType), rows).map((item, i) => {
+                                            const key = groupKey(sectionKey(basis, statementType), item.label);
+                                            const toggle = item.isParent && (
+                                                <button
+                                                    type="button"
+                                                    aria-label={collapsed.has(key) ? 'Expand' : 'Collapse'}
+                                                    onClick={() => toggleGroup(key)}
+                                                    className="mr-1 text-slate-400 hover:text-slate-700"
+                                                >
+                                                    {collapsed.has(key) ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                                                </button>
+                                            );
+
+                                            if (item.kind === 'group') {
+                                                return (
+                                                    <TableRow key={i} className="bg-slate-50/50">
+                                                        <TableCell colSpan={headers.length + 2} style={{ paddingLeft: 8 + item.level * 16 }}>
+                                                            <div className="flex items-center text-sm font-semibold text-slate-700">
+                                                                {toggle}
+                                                                {item.label}
+                                                            </div>
+                                                        </TableCell>
+                                                    </TableRow>
+                                                );
+                                            }
+
+                                            const row = item.row;
+                                            return (
+                                                <TableRow key={i} className="hover:bg-slate-50/50">
+                                                    <TableCell className="font-medium align-top" style={{ paddingLeft: 8 + item.level * 16 }}>
+                                                        <div className="flex flex-col gap-0.5">
+                                                            {row.category && (
+                                                                <span className="text-[10px] uppercase tracking-wider text-slate-400 font-bold">
+                                                                    <InlineEdit
+                                                                        value={row.category}
+                                                                        label="category"
+                                                                        options={STATEMENT_CATEGORIES[statementType]}
+                                                                        disabled={!canEdit}
+                                                                        onSave={(text) => handleCorrection({ recordIds: Object.values(row.ids), field: 'category', from: row.category, to: text as Category })}
+                                                                    >
+                                                                        {row.category}
+                                                                    </InlineEdit>
+                                                                    {' '}{row.subCategory ? `› ${row.subCategory}` : ''}
+                                                                </span>
+                                                            )}
+                                                            <span className="flex items-center text-sm text-slate-800">
+                                                                {toggle}
+                                                                <InlineEdit
+                                                                    value={row.lineItem}
+                                                                    label="label"
+                                                                    disabled={!canEdit}
+                                                                    onSave={(text) => text && handleCorrection({ recordIds: Object.values(row.ids), field: 'lineItem', from: row.lineItem, to: text })}
+                                                                >
+                                                                    {row.lineItem}
+                                                                </InlineEdit>
+                                                                {row.reviewReason && (
+                                                                    <span title={row.reviewReason} className="ml-2 inline-flex items-center gap-1 rounded bg-amber-50 px-1.5 py-0.5 text-[10px] font-medium text-amber-700 ring-1 ring-amber-600/20">
+                                                                        <AlertTriangle className="h-3 w-3" /> Review
+                                                                    </span>
+                                                                )}
+                                                            </span>
+                                                            {(row.account || canEdit) && (
+                                                                <span className="text-[10px] text-slate-400">
+                                                                    <InlineEdit
+                                                                        value={row.account ? (ACCOUNTS_BY_ID.get(row.account.id)?.name ?? row.account.id) : NO_ACCOUNT}
+                                                                        label="account"
+                                                                        options={[NO_ACCOUNT, ...accountsFor(statementType).map(a => a.name)]}
+                                                                        disabled={!canEdit}
+                                                                        onSave={(text) => correctAccount(Object.values(row.ids), row.account, statementType, text)}
+                                                                    >
+                                                                        {row.account ? `≡ ${ACCOUNTS_BY_ID.get(row.account.id)?.name ?? row.account.id}` : NO_ACCOUNT}
+                                                                    </InlineEdit>
+                                                                    {row.account && (
+                                                                        <span title={row.account.source === 'llm' ? 'Matched on the name the AI gave the row' : undefined}>
+                                                                            {' '}· {row.account.source === 'override' ? 'set by reviewer' : `${Math.round(row.account.score * 100)}% match`}
+                                                                        </span>
+                                                                    )}
+                                                                </span>
+                                                            )}
+                                                            {(row.unit || row.page) && (
+                                                                <span className="flex items-center gap-1 text-[10px] text-slate-400">
+                                                                    {[row.unit, row.page && `Page ${row.page}`].filter(Boolean).join(' · ')}
+                                                                    {(row.labelBox || row.valueBoxes.length > 0) && (
+                                                                        <button
+                                                                            type="button"
+                                                                            aria-label="Show in document"
+                                                                            title="Show in document"
+                                                                            onClick={() => setSource({ lineItem: row.lineItem, document: row.document, labelBox: row.labelBox, valueBoxes: row.valueBoxes })}
+                                                                            className="text-slate-400 hover:text-sky-700"
+                                                                        >
+                                                                            <ScanSearch className="h-3 w-3" />
+                                                                        </button>
+                                                                    )}
+                                                                </span>
+                                                            )}
+                                                        </div>
+                                                    </TableCell>
+                                                    {headers.map((period: Period) => {
+                                                        const value = row.values[periodKey(period)];
+                                                        const recordId: number | undefined = row.ids[periodKey(period)];
+                                                        const shown = (value !== null && value !== undefined) ?
+                                                            value.toLocaleString() :
+                                                            '-';
+                                                        const changes = restated.get(cellKey(statementType, basis, row.lineItem, period));
+                                                        const corrected = recordId !== undefined && correctedValues.has(recordId);
+                                                        const document = recordId !== undefined ? records[recordId]?.document : undefined;
+                                                        return (
+                                                            <TableCell
+                                                                key={periodKey(period)}
+                                                                title={changes ? `Restated: ${changes.map(describeRestatement).join('; ')}`
+                                                                    : corrected ? 'Corrected'
+                                                                        : document ? `From ${document}` : undefined}
+                                                                className={`text-right font-mono text-slate-600 ${changes ? 'bg-amber-50 text-amber-800' : corrected ? 'bg-sky-50' : ''}`}
+                                                            >
+                                                                <InlineEdit
+                                                                    value={typeof value === 'number' ? String(value) : ''}
+                                                                    label="value"
+                                                                    disabled={!canEdit || recordId === undefined}
+                                                                    onSave={(text) => correctValue(recordId!, typeof value === 'number' ? value : null, text)}
+                                                                >
+                                                                    {shown}
+                                                                </InlineEdit>
+                                                            </TableCell>
+                                                        );
+                                                    })}
+                                                    <TableCell className="text-right align-top">
+                                                        <div className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${row.confidence === 'High' ? 'bg-emerald-50 text-emerald-700 ring-1 ring-emerald-600/20' :
+                                                            row.confidence === 'Medium' ? 'bg-amber-50 text-amber-700 ring-1 ring-amber-600/20' :
+                                                                'bg-rose-50 text-rose-700 ring-1 ring-rose-600/20'
+                                                            }`}>
+                                                            {row.confidence}
+                                                        </div>
+                                                    </TableCell>
+                                                </TableRow>
+                                            );
+                                        })}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        ))}
+                        {merged && merged.restatements.length > 0 && (
+                            <details open className="border-t px-4 py-3 text-sm text-slate-600">
+                                <summary className="cursor-pointer font-medium text-amber-700">
+                                    {merged.restatements.length} figure(s) restated in a later report
+                                </summary>
+                                <ul className="mt-2 space-y-1 font-mono text-xs">
+                                    {merged.restatements.map((r: Restatement, i: number) => (
+                                        <li key={i}>
+                                            {r.basis && `${BASIS_LABELS[r.basis]} `}{STATEMENT_LABELS[r.statementType]} · {r.lineItem} · {r.period.label}: {describeRestatement(r)}
+                                        </li>
                                     ))}
-                                </TableBody>
-                            </Table>
-                        </div>
+                                </ul>
+                            </details>
+                        )}
+                        {discrepancies.length > 0 && (
+                            <details className="border-t px-4 py-3 text-sm text-slate-600">
+                                <summary className="cursor-pointer font-medium text-rose-700">
+                                    {discrepancies.length} arithmetic check(s) failed
+                                </summary>
+                                <ul className="mt-2 space-y-1 font-mono text-xs">
+                                    {discrepancies.map((d: Discrepancy, i: number) => (
+                                        <li key={i}>
+                                            {d.basis && `${BASIS_LABELS[d.basis]} `}{STATEMENT_LABELS[d.statementType]} · {d.period}: {d.description}. Expected {d.expected.toLocaleString()}, found {d.actual.toLocaleString()}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </details>
+                        )}
+                        {data.rejectedValues?.length > 0 && (
+                            <details className="border-t px-4 py-3 text-sm text-slate-600">
+                                <summary className="cursor-pointer font-medium text-amber-700">
+                                    {data.rejectedValues.length} value(s) could not be read
+                                </summary>
+                                <ul className="mt-2 space-y-1 font-mono text-xs">
+                                    {data.rejectedValues.map((v: RejectedValue, i: number) => (
+                                        <li key={i}>
+                                            {v.lineItem} [{v.year}] &quot;{v.value}&quot;: {v.reason}{v.page ? ` (page ${v.page})` : ''}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </details>
+                        )}
+                        {data.corrections?.length > 0 && (
+                            <details className="border-t px-4 py-3 text-sm text-slate-600">
+                                <summary className="cursor-pointer font-medium text-sky-700">
+                                    {data.corrections.length} correction(s)
+                                </summary>
+                                <ul className="mt-2 space-y-1 font-mono text-xs">
+                                    {data.corrections.map((c: Correction) => (
+                                        <li key={c.id}>
+                                            {new Date(c.at).toLocaleString()} · {c.reviewer} · {CORRECTION_FIELD_LABELS[c.field]} of {records[c.recordIds[0]]?.lineItem ?? 'unknown row'}: {formatCorrectionValue(c.from)} → {formatCorrectionValue(c.to)}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </details>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+
+            {source && (
+                <Card className="fixed bottom-4 right-4 z-50 w-[min(560px,calc(100vw-2rem))] shadow-2xl border-slate-200">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 border-b bg-slate-50/50 py-3">
+                        <CardTitle className="text-sm">
+                            {source.lineItem} <span className="font-normal text-slate-500">· {source.document && `${source.document}, `}Page {sourcePage}</span>
+                        </CardTitle>
+                        <Button variant="ghost" size="sm" aria-label="Close" onClick={() => setSource(null)}>
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </CardHeader>
+                    <CardContent className="p-3">
+                        {sourceImages[sourcePage - 1] ? (
+                            <SourcePreview
+                                key={source.lineItem}
+                                image={sourceImages[sourcePage - 1]}
+                                boxes={sourceBoxes.filter(({ box }) => box.page === sourcePage).map(({ box }) => box)}
+                            />
+                        ) : (
+                            // Reopened from history: the PDF never left the browser, so only the coordinates are known
+                            <div className="space-y-1 text-xs text-slate-600">
+                                <p>Upload the PDF again to see the page. Cell positions (PDF points from the bottom-left corner):</p>
+                                <ul className="font-mono">
+                                    {sourceBoxes.map(({ kind, box }, i) => (
+                                        <li key={i}>
+                                            {kind}: x {box.x.toFixed(1)}, y {box.y.toFixed(1)}, {box.width.toFixed(1)} × {box.height.toFixed(1)}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
                     </CardContent>
                 </Card>
             )}
@@ -281,6 +933,6 @@ export default function App() {
     );
 
     function yearsDetected() {
-        return data?.yearsDetected?.join(', ') || 'N/A';
+        return reviewed?.yearsDetected.join(', ') || 'N/A';
     }
 }
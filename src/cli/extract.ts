@@ -0,0 +1,372 @@
+/**
+ * Batch extractor: runs the extraction pipeline over folders of PDFs from the command line.
+ *
+ *   npm run extract -- <dir | file.pdf | "filings/*.pdf">... [options]
+ *
+ * Writes one output per PDF and format, plus summary.json (failures and low-confidence rows)
+ * into --out. Model, cache and history settings come from the same environment as the server.
+ * Exit code 1 when any file failed.
+ */
+import { readdir, readFile, stat, mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import { runExtractionPipeline, ExtractionMode } from "@/lib/pipeline";
+import { renderPdf } from "@/lib/pdf-node";
+import { exportExtraction } from "@/lib/export";
+import { isNumberLocale } from "@/lib/number-parser";
+import { BoundingBox, CleanExtraction, StatementType, StatementTypeSchema, STATEMENT_LABELS } from "@/lib/schema";
+
+const USAGE = `Usage: npm run extract -- <dir | file.pdf | glob>... [options]
+
+Options:
+  -o, --out <dir>            Output directory (default: ./extractions)
+  -f, --format <list>        json, csv, xlsx, comma-separated (default: json)
+  -p, --pages <range>        Pages to read: "3-7", "4" or "all" (default: 1-5)
+  -s, --statements <list>    Only these statements: ${StatementTypeSchema.options.join(", ")}
+  -m, --mode <mode>          llm | deterministic (default: llm)
+      --fallback <fallback>  review | llm, for deterministic mode (default: review)
+      --fiscal-year-end <n>  Month (1-12) the fiscal year ends in (default: 3)
+      --locale <locale>      Locale of the printed numbers, e.g. de-DE for "1.234,56" (default: "." is a decimal point)
+  -c, --concurrency <n>      PDFs processed at once (default: 2)
+  -v, --verbose              Show pipeline logs
+  -h, --help                 Show this help`;
+
+const FORMATS = ["json", "csv", "xlsx"] as const;
+type Format = typeof FORMATS[number];
+
+interface CliOptions {
+    inputs: string[];
+    out: string;
+    formats: Format[];
+    firstPage: number;
+    lastPage?: number; // undefined: to the end
+    statementTypes?: StatementType[];
+    mode: ExtractionMode;
+    fallback: "review" | "llm";
+    fiscalYearEndMonth: number;
+    numberLocale?: string;
+    concurrency: number;
+    verbose: boolean;
+}
+
+interface LowConfidenceRow {
+    file: string;
+    page: number | null;
+    statement: string;
+    lineItem: string;
+    period: string;
+    value: number | null;
+    reason: string;
+}
+
+interface FileReport {
+    file: string;
+    status: "ok" | "failed";
+    records: number;
+    lowConfidence: number;
+    discrepancies: number;
+    outputs: string[];
+    error?: string;
+    ms: number;
+}
+
+class UsageError extends Error { }
+
+// --- ARGUMENTS ---
+
+function parseList<T extends string>(value: string, allowed: readonly T[], flag: string): T[] {
+    const items = value.split(",").map(v => v.trim()).filter(Boolean);
+    const unknown = items.filter(v => !allowed.includes(v as T));
+    if (unknown.length > 0) throw new UsageError(`${flag}: unknown value(s) ${unknown.join(", ")} (expected ${allowed.join(", ")})`);
+    return items as T[];
+}
+
+// One value of a list: "--mode llm,deterministic" is an error, not "llm"
+function parseChoice<T extends string>(value: string, allowed: readonly T[], flag: string): T {
+    const [choice, ...rest] = parseList(value, allowed, flag);
+    if (!choice || rest.length > 0) throw new UsageError(`${flag}: expected one of ${allowed.join(", ")}, got "${value}"`);
+    return choice;
+}
+
+function parsePositiveInt(value: string, flag: string, max = Infinity): number {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 1 || n > max) throw new UsageError(`${flag}: expected a whole number from 1${max < Infinity ? ` to ${max}` : ""}, got "${value}"`);
+    return n;
+}
+
+function parseLocale(value: string): string {
+    if (!isNumberLocale(value)) throw new UsageError(`--locale: expected a locale such as de-DE, got "${value}"`);
+    return value;
+}
+
+function parsePageRange(value: string): { firstPage: number, lastPage?: number } {
+    if (value === "all") return { firstPage: 1 };
+    const match = value.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) throw new UsageError(`--pages: expected "3-7", "4" or "all", got "${value}"`);
+    const firstPage = parsePositiveInt(match[1], "--pages");
+    const lastPage = match[2] ? parsePositiveInt(match[2], "--pages") : firstPage;
+    if (lastPage < firstPage) throw new UsageError(`--pages: range "${value}" ends before it starts`);
+    return { firstPage, lastPage };
+}
+
+function parseOptions(argv: string[]): CliOptions | null {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            out: { type: "string", short: "o", default: "extractions" },
+            format: { type: "string", short: "f", default: "json" },
+            pages: { type: "string", short: "p", default: "1-5" },
+            statements: { type: "string", short: "s" },
+            mode: { type: "string", short: "m", default: "llm" },
+            fallback: { type: "string", default: "review" },
+            "fiscal-year-end": { type: "string", default: "3" },
+            locale: { type: "string" },
+            concurrency: { type: "string", short: "c", default: "2" },
+            verbose: { type: "boolean", short: "v", default: false },
+            help: { type: "boolean", short: "h", default: false },
+        },
+    });
+
+    if (values.help) return null;
+    if (positionals.length === 0) throw new UsageError("No input given.");
+
+    return {
+        inputs: positionals,
+        out: path.resolve(values.out),
+        formats: parseList(values.format, FORMATS, "--format"),
+        ...parsePageRange(values.pages),
+        statementTypes: values.statements ? parseList(values.statements, StatementTypeSchema.options, "--statements") : undefined,
+        mode: parseChoice(values.mode, ["llm", "deterministic"] as const, "--mode"),
+        fallback: parseChoice(values.fallback, ["review", "llm"] as const, "--fallback"),
+        fiscalYearEndMonth: parsePositiveInt(values["fiscal-year-end"], "--fiscal-year-end", 12),
+        numberLocale: values.locale !== undefined ? parseLocale(values.locale) : undefined,
+        concurrency: parsePositiveInt(values.concurrency, "--concurrency"),
+        verbose: values.verbose,
+    };
+}
+
+// --- INPUT FILES ---
+
+const isPdf = (file: string) => file.toLowerCase().endsWith(".pdf");
+
+async function walk(dir: string): Promise<string[]> {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const nested = await Promise.all(entries.map(entry => {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) return walk(full);
+        return Promise.resolve(entry.isFile() ? [full] : []);
+    }));
+    return nested.flat();
+}
+
+// "*" and "?" stay within a path segment, "**" crosses segments
+function globToRegExp(pattern: string): RegExp {
+    const source = pattern.split(/(\*\*\/?|\*|\?)/).map(part => {
+        if (part === "**/" || part === "**") return "(?:.*/)?";
+        if (part === "*") return "[^/]*";
+        if (part === "?") return "[^/]";
+        return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }).join("");
+    return new RegExp(`^${source}$`);
+}
+
+// Inputs may be PDF files, directories (searched recursively) or quoted globs
+async function findPdfs(inputs: string[]): Promise<string[]> {
+    const files = new Set<string>();
+
+    for (const input of inputs) {
+        if (/[*?]/.test(input)) {
+            const normalized = input.split(path.sep).join("/");
+            const base = normalized.slice(0, normalized.search(/[*?]/)).replace(/[^/]*$/, "") || ".";
+            const pattern = globToRegExp(path.resolve(normalized).split(path.sep).join("/"));
+            (await walk(path.resolve(base)))
+                .filter(file => isPdf(file) && pattern.test(file.split(path.sep).join("/")))
+                .forEach(file => files.add(file));
+            continue;
+        }
+
+        const info = await stat(input).catch(() => null);
+        if (!info) throw new UsageError(`No such file or directory: ${input}`);
+        if (info.isDirectory()) (await walk(input)).filter(isPdf).forEach(file => files.add(path.resolve(file)));
+        else files.add(path.resolve(input));
+    }
+
+    return Array.from(files).sort();
+}
+
+// --- OUTPUT ---
+
+async function writeOutputs(result: CleanExtraction, name: string, fileName: string, options: CliOptions): Promise<string[]> {
+    const written: string[] = [];
+
+    for (const format of options.formats) {
+        const file = path.join(options.out, `${name}.${format}`);
+        await writeFile(file, exportExtraction(result, format, { fileName }));
+        written.push(file);
+    }
+
+    return written;
+}
+
+// The pipeline numbers the rendered pages 1..n; put the document's page numbers back
+function toDocumentPages(result: CleanExtraction, pageNumbers: number[]): CleanExtraction {
+    const documentPage = (page: number | null) => (page === null ? null : pageNumbers[page - 1] ?? page);
+    const documentBox = (box: BoundingBox | null) => (box && { ...box, page: documentPage(box.page)! });
+    return {
+        ...result,
+        records: result.records.map(r => ({
+            ...r,
+            page: documentPage(r.page),
+            labelBox: documentBox(r.labelBox),
+            valueBox: documentBox(r.valueBox),
+        })),
+        rejectedValues: result.rejectedValues.map(v => ({ ...v, page: documentPage(v.page) })),
+        // "Statement pages (ranked): p1 (...)"
+        notes: result.notes?.replace(/\bp(\d+)\b/g, (_, page) => `p${documentPage(Number(page))}`),
+    };
+}
+
+function lowConfidenceRows(file: string, result: CleanExtraction): LowConfidenceRow[] {
+    return result.records.filter(r => r.confidence === "Low").map(r => ({
+        file,
+        page: r.page,
+        statement: STATEMENT_LABELS[r.statementType],
+        lineItem: r.lineItem,
+        period: r.period.label,
+        value: r.value,
+        reason: r.reviewReason
+            ?? result.discrepancies.find(d => d.period === r.period.label && d.lineItems.includes(r.lineItem))?.description
+            ?? "Loosely aligned column or uncertain read",
+    }));
+}
+
+// --- MAIN ---
+
+async function extractFile(file: string, name: string, options: CliOptions, lowConfidence: LowConfidenceRow[]): Promise<FileReport> {
+    const started = Date.now();
+    const relative = path.relative(process.cwd(), file);
+
+    try {
+        const rendered = await renderPdf(new Uint8Array(await readFile(file)), {
+            firstPage: options.firstPage,
+            lastPage: options.lastPage,
+            maxPages: Infinity, // the page range is the limit here
+        });
+        if (rendered.images.length === 0) throw new Error(`No pages in range (document has ${rendered.pageCount})`);
+
+        const result = toDocumentPages(await runExtractionPipeline(rendered.images, rendered.textData, {
+            mode: options.mode,
+            fallback: options.fallback,
+            fiscalYearEndMonth: options.fiscalYearEndMonth,
+            numberLocale: options.numberLocale,
+            statementTypes: options.statementTypes,
+        }), rendered.pageNumbers);
+
+        const outputs = await writeOutputs(result, name, path.basename(file), options);
+        const low = lowConfidenceRows(relative, result);
+        lowConfidence.push(...low);
+
+        return { file: relative, status: "ok", records: result.records.length, lowConfidence: low.length, discrepancies: result.discrepancies.length, outputs, ms: Date.now() - started };
+    } catch (error) {
+        return { file: relative, status: "failed", records: 0, lowConfidence: 0, discrepancies: 0, outputs: [], error: error instanceof Error ? error.message : String(error), ms: Date.now() - started };
+    }
+}
+
+// Output names from the PDF names; "report.pdf" twice becomes "report" and "report-2"
+function outputNames(files: string[]): string[] {
+    const used = new Map<string, number>();
+    return files.map(file => {
+        const base = path.basename(file, path.extname(file));
+        const count = (used.get(base) ?? 0) + 1;
+        used.set(base, count);
+        return count === 1 ? base : `${base}-${count}`;
+    });
+}
+
+async function main(argv: string[]): Promise<number> {
+    let parsed: CliOptions | null;
+    try {
+        parsed = parseOptions(argv);
+    } catch (error) {
+        // parseArgs throws TypeError for unknown flags and missing values
+        if (!(error instanceof UsageError) && !(error instanceof TypeError)) throw error;
+        process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+        return 2;
+    }
+    if (!parsed) {
+        process.stdout.write(`${USAGE}\n`);
+        return 0;
+    }
+    const options = parsed;
+
+    // The pipeline logs every stage; keep the terminal to one line per file unless asked
+    if (!options.verbose) {
+        console.log = () => { };
+        console.warn = () => { };
+    }
+
+    let files: string[];
+    try {
+        files = await findPdfs(options.inputs);
+    } catch (error) {
+        if (!(error instanceof UsageError)) throw error;
+        process.stderr.write(`${error.message}\n`);
+        return 2;
+    }
+    if (files.length === 0) {
+        process.stderr.write("No PDF files found.\n");
+        return 1;
+    }
+    await mkdir(options.out, { recursive: true });
+
+    const startedAt = new Date();
+    const names = outputNames(files);
+    const reports: FileReport[] = new Array(files.length);
+    const lowConfidence: LowConfidenceRow[] = [];
+    let next = 0;
+
+    process.stdout.write(`Extracting ${files.length} PDF(s), ${options.concurrency} at a time -> ${options.out}\n`);
+
+    // Worker pool: each worker takes the next file until none are left
+    const worker = async () => {
+        while (next < files.length) {
+            const i = next++;
+            const report = await extractFile(files[i], names[i], options, lowConfidence);
+            reports[i] = report;
+            process.stdout.write(report.status === "ok"
+                ? `  ok      ${report.file}: ${report.records} records, ${report.lowConfidence} low confidence (${(report.ms / 1000).toFixed(1)}s)\n`
+                : `  FAILED  ${report.file}: ${report.error}\n`);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(options.concurrency, files.length) }, worker));
+
+    const failures = reports.filter(r => r.status === "failed");
+    const summary = {
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        options: { ...options, inputs: undefined },
+        totals: {
+            files: files.length,
+            succeeded: files.length - failures.length,
+            failed: failures.length,
+            records: reports.reduce((sum, r) => sum + r.records, 0),
+            lowConfidence: lowConfidence.length,
+        },
+        files: reports,
+        failures: failures.map(r => ({ file: r.file, error: r.error })),
+        lowConfidence,
+    };
+    const summaryFile = path.join(options.out, "summary.json");
+    await writeFile(summaryFile, JSON.stringify(summary, null, 2));
+
+    process.stdout.write(`\n${summary.totals.succeeded} succeeded, ${summary.totals.failed} failed, `
+        + `${summary.totals.lowConfidence} low-confidence row(s). Report: ${summaryFile}\n`);
+
+    return failures.length > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(code => process.exit(code), error => {
+    process.stderr.write(`${error instanceof Error ? error.stack : error}\n`);
+    process.exit(1);
+});
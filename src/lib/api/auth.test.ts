@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { checkApiKey } from "./auth";
+
+const ENV = { ...process.env, API_KEYS: "key-one, key-two" };
+
+const request = (headers: Record<string, string> = {}) =>
+    new Request("http://localhost/api/v1/extractions", { method: "POST", headers });
+
+describe("checkApiKey", () => {
+    it("accepts any configured key, as a bearer token or in X-API-Key", () => {
+        assert.deepEqual(checkApiKey(request({ Authorization: "Bearer key-one" }), ENV), { ok: true });
+        assert.deepEqual(checkApiKey(request({ "X-API-Key": "key-two" }), ENV), { ok: true });
+    });
+
+    it("rejects a missing or wrong key", () => {
+        const rejected = { ok: false, status: 401, error: "Missing or invalid API key." };
+        assert.deepEqual(checkApiKey(request(), ENV), rejected);
+        assert.deepEqual(checkApiKey(request({ Authorization: "Bearer key-three" }), ENV), rejected);
+        assert.deepEqual(checkApiKey(request({ "X-API-Key": "key-one-and-more" }), ENV), rejected);
+    });
+
+    it("keeps the API closed when no keys are configured", () => {
+        const result = checkApiKey(request({ Authorization: "Bearer key-one" }), { ...process.env, API_KEYS: "" });
+        assert.deepEqual(result, { ok: false, status: 503, error: "The API is disabled: no API_KEYS are configured." });
+    });
+});
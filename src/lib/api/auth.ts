@@ -0,0 +1,36 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+/**
+ * API-key check for the public REST API (/api/v1).
+ * Keys come from API_KEYS (comma-separated). With no keys configured the API is closed:
+ * an open endpoint would let anyone spend the deployment's LLM quota.
+ */
+
+export type ApiAuthResult =
+    | { ok: true }
+    | { ok: false; status: 401 | 503; error: string };
+
+// Constant-time compare of equal-length digests, so response timing leaks nothing about a key
+const sameKey = (a: string, b: string) =>
+    timingSafeEqual(createHash("sha256").update(a).digest(), createHash("sha256").update(b).digest());
+
+// "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function presentedKey(request: Request): string | null {
+    const authorization = request.headers.get("authorization");
+    const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    return bearer?.trim() || request.headers.get("x-api-key")?.trim() || null;
+}
+
+export function checkApiKey(request: Request, env: NodeJS.ProcessEnv = process.env): ApiAuthResult {
+    const keys = (env.API_KEYS ?? "").split(",").map(k => k.trim()).filter(Boolean);
+    if (keys.length === 0) {
+        return { ok: false, status: 503, error: "The API is disabled: no API_KEYS are configured." };
+    }
+
+    const key = presentedKey(request);
+    if (!key || !keys.some(k => sameKey(k, key))) {
+        return { ok: false, status: 401, error: "Missing or invalid API key." };
+    }
+
+    return { ok: true };
+}
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readExtractionUpload } from "./extractions";
+
+// The server's environment with the default upload limit
+const ENV = { ...process.env, API_MAX_UPLOAD_MB: undefined };
+
+const PDF_BYTES = new TextEncoder().encode("%PDF-1.7\n%fake document\n");
+
+function form(file: File | null, fields: Record<string, string> = {}): FormData {
+    const data = new FormData();
+    if (file) data.set("file", file);
+    Object.entries(fields).forEach(([key, value]) => data.set(key, value));
+    return data;
+}
+
+const pdf = (bytes: Uint8Array<ArrayBuffer> = PDF_BYTES, name = "report.pdf") => new File([bytes], name, { type: "application/pdf" });
+
+describe("readExtractionUpload", () => {
+    it("reads a PDF and its options", async () => {
+        const upload = await readExtractionUpload(form(pdf(), { mode: "deterministic", fiscalYearEndMonth: "12", numberLocale: "de-DE" }), ENV);
+
+        assert.ok(upload.ok);
+        assert.equal(upload.fileName, "report.pdf");
+        assert.equal(upload.fileHash.length, 64);
+        assert.deepEqual(upload.options, { mode: "deterministic", fallback: "review", fiscalYearEndMonth: 12, numberLocale: "de-DE" });
+    });
+
+    it("rejects a file that is not a PDF, whatever its declared type", async () => {
+        const notPdf = new File([new TextEncoder().encode("PK\u0003\u0004 spreadsheet")], "report.pdf", { type: "application/pdf" });
+        const upload = await readExtractionUpload(form(notPdf), ENV);
+
+        assert.deepEqual(upload, { ok: false, status: 415, error: "File is not a PDF." });
+    });
+
+    it("rejects an upload over API_MAX_UPLOAD_MB", async () => {
+        const large = new Uint8Array(2 * 1024 * 1024 + 1);
+        large.set(PDF_BYTES);
+        const upload = await readExtractionUpload(form(pdf(large)), { ...ENV, API_MAX_UPLOAD_MB: "2" });
+
+        assert.deepEqual(upload, { ok: false, status: 413, error: "File is larger than 2 MB." });
+    });
+
+    it("rejects a missing file and invalid fields", async () => {
+        assert.deepEqual(await readExtractionUpload(form(null), ENV), { ok: false, status: 400, error: "Expected a PDF in the \"file\" field." });
+
+        const upload = await readExtractionUpload(form(pdf(), { fiscalYearEndMonth: "13", numberLocale: "german" }), ENV);
+        assert.ok(!upload.ok);
+        assert.equal(upload.status, 400);
+        assert.match(upload.error, /fiscalYearEndMonth/);
+        assert.match(upload.error, /numberLocale: expected a locale such as de-DE/);
+    });
+});
@@ -0,0 +1,58 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import { JobOptions } from "../jobs";
+import { isNumberLocale } from "../number-parser";
+
+/**
+ * Request handling for POST /api/v1/extractions: the multipart form, checked before any work is done.
+ */
+
+// Form fields besides "file" (all optional; see openapi.ts)
+export const ExtractionFormSchema = z.object({
+    mode: z.enum(["llm", "deterministic"]).default("llm"),
+    fallback: z.enum(["review", "llm"]).default("review"),
+    fiscalYearEndMonth: z.coerce.number().int().min(1).max(12).default(3),
+    numberLocale: z.string().refine(isNumberLocale, "expected a locale such as de-DE").optional(),
+});
+
+export type ExtractionUpload =
+    | { ok: true; data: Uint8Array; fileName: string; fileHash: string; options: JobOptions }
+    | { ok: false; status: 400 | 413 | 415; error: string };
+
+const DEFAULT_MAX_UPLOAD_MB = 20;
+
+export async function readExtractionUpload(form: FormData, env: NodeJS.ProcessEnv = process.env): Promise<ExtractionUpload> {
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+        return { ok: false, status: 400, error: "Expected a PDF in the \"file\" field." };
+    }
+
+    const maxBytes = (Number(env.API_MAX_UPLOAD_MB) || DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024;
+    if (file.size > maxBytes) {
+        return { ok: false, status: 413, error: `File is larger than ${maxBytes / 1024 / 1024} MB.` };
+    }
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    // Trust the bytes, not the declared content type
+    if (new TextDecoder().decode(data.subarray(0, 5)) !== "%PDF-") {
+        return { ok: false, status: 415, error: "File is not a PDF." };
+    }
+
+    const fields = ExtractionFormSchema.safeParse(Object.fromEntries(
+        Object.keys(ExtractionFormSchema.shape).flatMap(key => {
+            const value = form.get(key);
+            return typeof value === "string" && value !== "" ? [[key, value]] : [];
+        })
+    ));
+    if (!fields.success) {
+        return { ok: false, status: 400, error: fields.error.issues.map(i => `${i.path.join(".")}: ${i.message}`).join("; ") };
+    }
+
+    return {
+        ok: true,
+        data,
+        fileName: file.name || "upload.pdf",
+        fileHash: createHash("sha256").update(data).digest("hex"),
+        options: fields.data
+    };
+}
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { CleanExtractionSchema } from "../schema";
+import { ExtractionFormSchema } from "./extractions";
+
+/**
+ * OpenAPI 3.1 description of the public API, served at GET /api/v1/openapi.json.
+ * Payload schemas are generated from the zod schemas the server validates with, so they cannot drift.
+ */
+
+const formFields = z.toJSONSchema(ExtractionFormSchema, { io: "input" }) as { properties: Record<string, object> };
+
+const error = (description: string) => ({
+    description,
+    content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } }
+});
+
+export const openApiDocument = {
+    openapi: "3.1.0",
+    info: {
+        title: "Financial Statement Extractor API",
+        version: "1.0.0",
+        description: "Extracts Income Statement, Balance Sheet and Cash Flow tables from a PDF into structured records."
+    },
+    servers: [{ url: "/api/v1" }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: {
+        "/extractions": {
+            post: {
+                operationId: "createExtraction",
+                summary: "Extract financial statements from a PDF",
+                description: "Renders the PDF on the server, runs the extraction pipeline and returns the result. "
+                    + "Only the first pages are processed (API_MAX_PAGES, default 5). The call returns when the extraction finishes.",
+                requestBody: {
+                    required: true,
+                    content: {
+                        "multipart/form-data": {
+                            schema: {
+                                type: "object",
+                                required: ["file"],
+                                properties: {
+                                    file: { type: "string", contentMediaType: "application/pdf", description: "The PDF document" },
+                                    ...formFields.properties
+                                }
+                            }
+                        }
+                    }
+                },
+                responses: {
+                    "200": {
+                        description: "Extraction result",
+                        headers: {
+                            "X-Extraction-Id": { description: "ID of the run (also its history entry, when history is on)", schema: { type: "string" } }
+                        },
+                        content: { "application/json": { schema: { $ref: "#/components/schemas/CleanExtraction" } } }
+                    },
+                    "400": error("Missing file or invalid form field"),
+                    "401": error("Missing or invalid API key"),
+                    "413": error("File too large (API_MAX_UPLOAD_MB, default 20)"),
+                    "415": error("File is not a PDF"),
+                    "422": error("The PDF could not be read"),
+                    "500": error("The extraction failed"),
+                    "503": error("The API is disabled (no API_KEYS configured)")
+                }
+            }
+        }
+    },
+    components: {
+        securitySchemes: {
+            bearerAuth: { type: "http", scheme: "bearer" },
+            apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" }
+        },
+        schemas: {
+            CleanExtraction: z.toJSONSchema(CleanExtractionSchema),
+            Error: { type: "object", required: ["error"], properties: { error: { type: "string" } } }
+        }
+    }
+};
@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as XLSX from "xlsx";
+import { CleanRecord } from "./schema";
+import { numberFormat, sheetName, toCsv, toJson, toXlsx } from "./export";
+import { FY2023_24, FY2024_25, makeExtraction, makeRecord } from "./test-helpers";
+
+// A row under "Other expenses" in the standalone income statement
+const expense = (lineItem: string, value: number, overrides: Partial<CleanRecord> = {}) =>
+    makeRecord({ basis: "standalone", category: "Expenses", subCategory: "Other expenses", level: 1, lineItem, value, ...overrides });
+
+describe("toCsv", () => {
+    it("writes a header and one row per record", () => {
+        const [header, row, end] = toCsv([expense("Power and fuel", 12.5)]).split("\n");
+        assert.deepEqual(header.split(",").slice(0, 5), ["Statement", "Basis", "Category", "SubCategory", "Line Item"]);
+        assert.ok(row.startsWith("Income Statement,Standalone,Expenses,Other expenses,Power and fuel,"));
+        assert.ok(row.includes(",FY2024-25,2024-04-01,2025-03-31,,12.5,₹ Crores,1,High,"));
+        assert.equal(end, "");
+    });
+
+    it("quotes commas and quotes inside a cell", () => {
+        const [, row] = toCsv([expense('Repairs, "plant"', 3)]).split("\n");
+        assert.ok(row.includes(',"Repairs, ""plant""",'));
+    });
+
+    it("quotes text a spreadsheet would run as a formula", () => {
+        const [, row] = toCsv([expense("=HYPERLINK(\"http://example.com\")", -120, { subCategory: "@SUM(A1)" })]).split("\n");
+        assert.ok(row.includes(`"'=HYPERLINK(""http://example.com"")"`));
+        assert.ok(row.includes("'@SUM(A1)"));
+        assert.ok(row.includes(",-120,"), "negative numbers stay numbers");
+    });
+});
+
+describe("toJson", () => {
+    it("serializes the same extraction to the same text, whatever the record order", () => {
+        const records = [expense("Rent", 4, { rowIndex: 2 }), expense("Power and fuel", 12.5, { rowIndex: 1 })];
+        const json = toJson(makeExtraction(records));
+        assert.equal(toJson(makeExtraction([...records].reverse())), json);
+
+        const parsed = JSON.parse(json);
+        assert.deepEqual(parsed.records.map((r: CleanRecord) => r.lineItem), ["Power and fuel", "Rent"]);
+        assert.deepEqual(Object.keys(parsed.records[0]), Object.keys(parsed.records[0]).sort());
+    });
+});
+
+describe("toXlsx", () => {
+    it("gives each statement and basis a sheet of its own", () => {
+        const records = [expense("Rent", 4), makeRecord({ basis: "consolidated", statementType: "cash_flow", category: "Operating" })];
+        const workbook = XLSX.read(toXlsx(makeExtraction(records), { fileName: "report.pdf" }), { type: "array" });
+        assert.deepEqual(workbook.SheetNames.slice(0, 3), ["Summary", "Standalone Income Statement", "Consolidated Cash Flow"]);
+    });
+
+    it("keeps sheet names within Excel's 31 characters", () => {
+        assert.equal(sheetName("consolidated", "cash_flow"), "Consolidated Cash Flow");
+        assert.equal(sheetName(null, "balance_sheet"), "Balance Sheet");
+    });
+
+    it("keeps repeated labels under one heading on rows of their own", () => {
+        const records = [
+            expense("Others", 10, { rowIndex: 1 }),
+            expense("Others", 20, { rowIndex: 2 }),
+            expense("Others", 9, { rowIndex: 1, period: FY2023_24, year: "2024" }),
+            expense("Others", 18, { rowIndex: 2, period: FY2023_24, year: "2024" }),
+        ];
+        const workbook = XLSX.read(toXlsx(makeExtraction(records)), { type: "array" });
+        const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets["Standalone Income Statement"]);
+        assert.deepEqual(rows.map(r => [String(r.Particulars).trim(), r[FY2024_25.label], r[FY2023_24.label]]), [["Others", 10, 9], ["Others", 20, 18]]);
+    });
+});
+
+describe("numberFormat", () => {
+    it("shows decimals for large scales and per-share values, brackets for negatives", () => {
+        assert.equal(numberFormat({ measure: "amount", scale: "crores" }), "#,##0.00;(#,##0.00)");
+        assert.equal(numberFormat({ measure: "amount", scale: "thousands" }), "#,##0;(#,##0)");
+        assert.equal(numberFormat({ measure: "per_share", scale: "crores" }), "0.00;(0.00)");
+    });
+});
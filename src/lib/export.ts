@@ -0,0 +1,341 @@
+import * as XLSX from "xlsx";
+import {
+    Basis,
+    BASIS_LABELS,
+    BoundingBox,
+    CleanExtraction,
+    CleanRecord,
+    Correction,
+    FigureSource,
+    MergedExtraction,
+    Scale,
+    StatementType,
+    StatementTypeSchema,
+    STATEMENT_LABELS
+} from "./schema";
+import { comparePeriods, periodKey } from "./normalization";
+import { convertToScale } from "./units";
+import { applyCorrections, formatCorrectionValue } from "./review";
+import { ACCOUNTS_BY_ID } from "./taxonomy";
+import { statementRows } from "./pivot";
+
+/**
+ * Export: CSV, canonical JSON and the Excel workbook, from one CleanExtraction.
+ * No file system or DOM access: callers get the bytes/text and save or download them
+ * (page.tsx in the browser, the batch CLI in Node).
+ */
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+    csv: "text/csv",
+    json: "application/json",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export interface ExportInfo {
+    fileName?: string | null;     // source document
+    exportedAt?: Date;            // default: now
+    scale?: Scale;                // convert amounts; default: as reported
+    includeCorrections?: boolean; // list reviewer corrections (JSON, XLSX); the data is always corrected
+}
+
+// --- CSV (one row per record) ---
+
+const RECORD_COLUMNS: [string, (r: CleanRecord) => string | number | null][] = [
+    ["Statement", r => STATEMENT_LABELS[r.statementType]],
+    ["Basis", r => (r.basis ? BASIS_LABELS[r.basis] : "")],
+    ["Category", r => r.category],
+    ["SubCategory", r => r.subCategory ?? ""],
+    ["Line Item", r => r.lineItem],
+    ["Account", r => r.account?.id ?? ""],
+    ["Account Score", r => r.account?.score ?? null],
+    ["Period", r => r.period.label],
+    ["Period Start", r => r.period.startDate ?? ""],
+    ["Period End", r => r.period.endDate ?? ""],
+    ["Audited", r => (r.period.audited === null ? "" : r.period.audited ? "Yes" : "No")],
+    ["Value", r => r.value],
+    ["Unit", r => r.unit ?? ""],
+    ["Page", r => r.page],
+    ["Confidence", r => r.confidence],
+    ["Review", r => r.reviewReason ?? ""],
+];
+
+// Text a spreadsheet would run as a formula ("=HYPERLINK(...)", "-2+3") is quoted with a leading
+// apostrophe; numbers are written as they are, so negatives stay numbers
+const FORMULA_START = /^[=+\-@]/;
+
+const csvCell = (value: unknown) => {
+    const raw = value === null || value === undefined ? "" : String(value);
+    const text = typeof value === "string" && FORMULA_START.test(raw) ? `'${raw}` : raw;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(records: CleanRecord[]): string {
+    const header = RECORD_COLUMNS.map(([name]) => name);
+    const rows = records.map(r => RECORD_COLUMNS.map(([, value]) => value(r)));
+    return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+// --- Canonical JSON ---
+
+// Object keys sorted at every level, so the same extraction always serializes to the same text
+const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === "object") {
+        return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+};
+
+/**
+ * Canonical JSON: sorted keys, two-space indent, records in document order
+ * (statement, basis, row, period). Diff-friendly: re-exports of unchanged data are byte-identical.
+ */
+export function toJson(extraction: CleanExtraction): string {
+    const statementOrder = StatementTypeSchema.options;
+    const records = [...extraction.records].sort((a, b) =>
+        statementOrder.indexOf(a.statementType) - statementOrder.indexOf(b.statementType)
+        || (a.basis ?? "").localeCompare(b.basis ?? "")
+        || (a.page ?? 0) - (b.page ?? 0)
+        || (a.rowIndex ?? 0) - (b.rowIndex ?? 0)
+        || comparePeriods(a.period, b.period)
+    );
+    return JSON.stringify(sortKeys({ ...extraction, records }), null, 2) + "\n";
+}
+
+// --- Excel workbook ---
+
+// Excel caps sheet names at 31 characters: "Consolidated Cash Flow Statement" -> "Consolidated Cash Flow"
+export const sheetName = (basis: Basis | null, statementType: StatementType) => {
+    const name = [basis && BASIS_LABELS[basis], STATEMENT_LABELS[statementType]].filter(Boolean).join(" ");
+    return (name.length > 31 ? name.replace(/ Statement$/, "") : name).slice(0, 31);
+};
+
+/**
+ * Number format for a record's value: per-share and percentage rows keep two decimals; amounts
+ * in lakhs, crores, millions or billions carry two decimals (1,234.56 Cr), plain units and
+ * thousands none. Negatives in brackets, as printed in statements.
+ */
+export function numberFormat(record: Pick<CleanRecord, "measure" | "scale">): string {
+    if (record.measure === "percentage") return '0.00"%";(0.00"%")';
+    if (record.measure === "per_share") return "0.00;(0.00)";
+    return record.scale && record.scale !== "units" && record.scale !== "thousands"
+        ? "#,##0.00;(#,##0.00)"
+        : "#,##0;(#,##0)";
+}
+
+// Standard name of the record's account (see taxonomy.ts); empty when unmapped
+const accountName = (record: CleanRecord) =>
+    record.account ? (ACCOUNTS_BY_ID.get(record.account.id)?.name ?? record.account.id) : "";
+
+// Statement sheet: line items down, periods across (latest first), one value cell per record
+function statementSheet(records: CleanRecord[]): XLSX.WorkSheet {
+    const periods = Array.from(new Map(records.map(r => [periodKey(r.period), r.period])).values()).sort(comparePeriods);
+    const rows = statementRows(records);
+
+    const fixedHeaders = ["Particulars", "Account", "Category", "SubCategory", "Unit"];
+    const header = [...fixedHeaders, ...periods.map(p => p.label), "Confidence", "Review"];
+    const body = rows.map(group => {
+        const first = group[0];
+        const byPeriod = new Map(group.map(r => [periodKey(r.period), r]));
+        return [
+            // Indent by tree level so the hierarchy survives in Excel
+            `${"    ".repeat(first.level)}${first.lineItem}`,
+            accountName(first),
+            first.category,
+            first.subCategory ?? "",
+            first.unit ?? "",
+            ...periods.map(p => byPeriod.get(periodKey(p))?.value ?? null),
+            group.some(r => r.confidence === "Low") ? "Low" : group.some(r => r.confidence === "Medium") ? "Medium" : "High",
+            group.find(r => r.reviewReason)?.reviewReason ?? "",
+        ];
+    });
+
+    const sheet = XLSX.utils.aoa_to_sheet([header, ...body]);
+
+    // Number formats cell by cell: one sheet can mix amounts, EPS and percentages
+    rows.forEach((group, rowIndex) => {
+        const byPeriod = new Map(group.map(r => [periodKey(r.period), r]));
+        periods.forEach((period, periodIndex) => {
+            const record = byPeriod.get(periodKey(period));
+            const cell = sheet[XLSX.utils.encode_cell({ r: rowIndex + 1, c: fixedHeaders.length + periodIndex })];
+            if (record && cell && cell.t === "n") cell.z = numberFormat(record);
+        });
+    });
+
+    sheet["!cols"] = [{ wch: 48 }, { wch: 32 }, { wch: 14 }, { wch: 24 }, { wch: 12 }, ...periods.map(() => ({ wch: 16 })), { wch: 11 }, { wch: 40 }];
+    return sheet;
+}
+
+function summarySheet(extraction: CleanExtraction, info: ExportInfo): XLSX.WorkSheet {
+    const { records, metadata } = extraction;
+    const count = (confidence: CleanRecord["confidence"]) => records.filter(r => r.confidence === confidence).length;
+
+    const rows: [string, string | number][] = [
+        ["File Name", info.fileName || "Unknown"],
+        ["Exported At", (info.exportedAt ?? new Date()).toISOString()],
+        ["Extraction Mode", metadata ? (metadata.mode === "deterministic" ? "Rules" : "AI (vision + layout)") : "Unknown"],
+        ["Model", metadata ? (metadata.model ? `${metadata.provider} / ${metadata.model}` : "None (no LLM called)") : "Unknown"],
+        ["Prompt Version", metadata?.promptVersion ?? "Unknown"],
+        ["Records", records.length],
+        ["High Confidence", count("High")],
+        ["Medium Confidence", count("Medium")],
+        ["Low Confidence", count("Low")],
+        ["Marked for Review", records.filter(r => r.reviewReason).length],
+        ["Failed Checks", extraction.discrepancies.length],
+        ["Rejected Values", extraction.rejectedValues.length],
+        ["Periods", extraction.periodsDetected.map(p => p.label).join(", ")],
+        ["Notes", extraction.notes ?? ""],
+    ];
+    if (extraction.corrections?.length) rows.push(["Corrections", extraction.corrections.length]);
+
+    const sheet = XLSX.utils.aoa_to_sheet([["Key", "Value"], ...rows]);
+    sheet["!cols"] = [{ wch: 20 }, { wch: 80 }];
+    return sheet;
+}
+
+// "x 72.0, y 540.2, 180.5 × 9.0 pt": PDF points from the page's bottom-left corner
+const formatBox = (box: BoundingBox | null) =>
+    box ? `x ${box.x.toFixed(1)}, y ${box.y.toFixed(1)}, ${box.width.toFixed(1)} × ${box.height.toFixed(1)} pt` : "";
+
+// Where every value came from: page, the text it was read from and the cells' positions
+function sourcesSheet(records: CleanRecord[]): XLSX.WorkSheet {
+    const sheet = XLSX.utils.json_to_sheet(records.map(r => ({
+        Statement: STATEMENT_LABELS[r.statementType],
+        Basis: r.basis ? BASIS_LABELS[r.basis] : "",
+        "Line Item": r.lineItem,
+        Account: accountName(r),
+        "Account Match": r.account ? (r.account.source === "override" ? "Override" : r.account.score) : "",
+        Period: r.period.label,
+        Value: r.value,
+        Unit: r.unit ?? "",
+        Page: r.page,
+        Source: r.sourceSnippet,
+        "Label Box": formatBox(r.labelBox),
+        "Value Box": formatBox(r.valueBox),
+        Confidence: r.confidence,
+        Review: r.reviewReason ?? "",
+        ...(r.document ? { Document: r.document } : {}), // merged series only
+    })));
+    sheet["!cols"] = [{ wch: 22 }, { wch: 12 }, { wch: 40 }, { wch: 32 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 12 }, { wch: 6 }, { wch: 60 }, { wch: 24 }, { wch: 24 }, { wch: 11 }, { wch: 40 }, { wch: 30 }];
+    return sheet;
+}
+
+// Validation results: failed cross-checks, then values normalization could not read
+function checksSheet(extraction: CleanExtraction): XLSX.WorkSheet {
+    const header = ["Check", "Statement", "Basis", "Period", "Description", "Expected", "Actual", "Difference", "Tolerance", "Line Items / Page"];
+    const discrepancies = extraction.discrepancies.map(d => [
+        d.check === "identity" ? "Identity" : "Subtotal",
+        STATEMENT_LABELS[d.statementType],
+        d.basis ? BASIS_LABELS[d.basis] : "",
+        d.period,
+        d.description,
+        d.expected,
+        d.actual,
+        d.difference,
+        d.tolerance,
+        d.lineItems.join("; "),
+    ]);
+    const rejected = extraction.rejectedValues.map(v => [
+        "Unreadable value", "", "", v.year, `${v.lineItem}: "${v.value}" (${v.reason})`, null, null, null, null, v.page === null ? "" : `p${v.page}`,
+    ]);
+    const rows = discrepancies.length + rejected.length > 0
+        ? [...discrepancies, ...rejected]
+        : [["All checks passed", "", "", "", "Subtotals and statement identities agree within tolerance.", null, null, null, null, ""]];
+
+    const sheet = XLSX.utils.aoa_to_sheet([header, ...rows]);
+    sheet["!cols"] = [{ wch: 16 }, { wch: 22 }, { wch: 12 }, { wch: 14 }, { wch: 60 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 10 }, { wch: 40 }];
+    return sheet;
+}
+
+// Audit trail: who changed what, when, from what
+function correctionsSheet(extraction: CleanExtraction, corrections: Correction[]): XLSX.WorkSheet {
+    const sheet = XLSX.utils.json_to_sheet(corrections.map(c => {
+        const record = extraction.records[c.recordIds[0]];
+        return {
+            When: c.at,
+            Reviewer: c.reviewer,
+            Field: c.field,
+            Statement: record ? STATEMENT_LABELS[record.statementType] : "",
+            Basis: record?.basis ? BASIS_LABELS[record.basis] : "",
+            "Line Item": record?.lineItem ?? "",
+            // A label, category or period edit covers every cell of a row or column
+            Period: c.recordIds.length === 1 && record ? record.period.label : `${c.recordIds.length} values`,
+            From: formatCorrectionValue(c.from),
+            To: formatCorrectionValue(c.to),
+        };
+    }));
+    sheet["!cols"] = [{ wch: 24 }, { wch: 18 }, { wch: 10 }, { wch: 22 }, { wch: 12 }, { wch: 40 }, { wch: 14 }, { wch: 20 }, { wch: 20 }];
+    return sheet;
+}
+
+// Merged series: figures a later report changed, with both values and where each was printed
+function restatementsSheet(restatements: MergedExtraction["restatements"]): XLSX.WorkSheet {
+    const figure = (prefix: string, f: FigureSource) => ({
+        [`${prefix} Report`]: f.document,
+        [`${prefix} Value`]: f.value,
+        [`${prefix} Unit`]: f.unit ?? "",
+        [`${prefix} Page`]: f.page,
+        [`${prefix} Box`]: formatBox(f.valueBox),
+    });
+    const sheet = restatements.length > 0
+        ? XLSX.utils.json_to_sheet(restatements.map(r => ({
+            Statement: STATEMENT_LABELS[r.statementType],
+            Basis: r.basis ? BASIS_LABELS[r.basis] : "",
+            "Line Item": r.lineItem,
+            Period: r.period.label,
+            ...figure("Original", r.original),
+            ...figure("Restated", r.restated),
+        })))
+        : XLSX.utils.aoa_to_sheet([["No restatements: every overlapping figure agrees across reports."]]);
+    sheet["!cols"] = [{ wch: 22 }, { wch: 12 }, { wch: 40 }, { wch: 14 }, ...Array(2).fill([{ wch: 24 }, { wch: 14 }, { wch: 12 }, { wch: 6 }, { wch: 24 }]).flat()];
+    return sheet;
+}
+
+/**
+ * The workbook: Summary, one sheet per statement and basis, Sources, Checks (and Corrections, when listed).
+ * A merged series adds a Restatements sheet.
+ * Returns the .xlsx file bytes.
+ */
+export function toXlsx(extraction: CleanExtraction | MergedExtraction, info: ExportInfo = {}): Uint8Array {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, summarySheet(extraction, info), "Summary");
+
+    // Standalone / Consolidated never share a sheet
+    const bases = Array.from(new Set(extraction.records.map(r => r.basis ?? null)));
+    bases.forEach(basis => StatementTypeSchema.options.forEach(statementType => {
+        const records = extraction.records.filter(r => (r.basis ?? null) === basis && r.statementType === statementType);
+        if (records.length > 0) XLSX.utils.book_append_sheet(wb, statementSheet(records), sheetName(basis, statementType));
+    }));
+
+    XLSX.utils.book_append_sheet(wb, sourcesSheet(extraction.records), "Sources");
+    XLSX.utils.book_append_sheet(wb, checksSheet(extraction), "Checks");
+    if (extraction.corrections?.length) {
+        XLSX.utils.book_append_sheet(wb, correctionsSheet(extraction, extraction.corrections), "Corrections");
+    }
+    if ("restatements" in extraction) {
+        XLSX.utils.book_append_sheet(wb, restatementsSheet(extraction.restatements), "Restatements");
+    }
+
+    return new Uint8Array(XLSX.write(wb, { type: "array", bookType: "xlsx" }) as ArrayBuffer);
+}
+
+/**
+ * One export in the given format: text for CSV/JSON, bytes for XLSX.
+ * Takes the extraction as stored (extracted records + corrections) and exports it as reviewed.
+ */
+export function exportExtraction(extraction: CleanExtraction | MergedExtraction, format: ExportFormat, info: ExportInfo = {}): string | Uint8Array {
+    const { corrections, ...reviewed } = applyCorrections(extraction);
+    const shown = {
+        ...reviewed,
+        records: info.scale ? convertToScale(reviewed.records, info.scale) : reviewed.records,
+        ...(info.includeCorrections && corrections?.length ? { corrections } : {}),
+    };
+
+    switch (format) {
+        case "csv": return toCsv(shown.records);
+        case "json": return toJson(shown);
+        case "xlsx": return toXlsx(shown, info);
+    }
+}
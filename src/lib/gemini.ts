@@ -1,27 +1,11 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 // Import schemas and normalization
-import { RawExtractionSchema, CleanExtractionSchema } from "./schema";
+import { CleanExtractionSchema } from "./schema";
 import { normalizeRecords } from "./normalization";
+import { validateExtraction } from "./validation";
+import { createProvider, ImagePart, LLMProvider } from "./llm";
 
-// Initialize lazily to avoid crash if key is missing at build time
-const getGenAI = () => {
-    const key = process.env.GEMINI_API_KEY;
-    if (!key) throw new Error("GEMINI_API_KEY is not set in environment variables");
-    return new GoogleGenerativeAI(key);
-};
-
-export async function extractFinancialData(base64Images: string[]) {
-    if (!process.env.GEMINI_API_KEY) {
-        throw new Error("GEMINI_API_KEY is not set");
-    }
-
-    const model = getGenAI().getGenerativeModel({
-        model: process.env.GEMINI_MODEL || "gemini-1.5-flash",
-        generationConfig: {
-            temperature: 0, // Deterministic output
-        }
-    });
-
+// Single-shot extraction (no layout grid). The provider is built lazily to avoid a crash if keys are missing at build time
+export async function extractFinancialData(base64Images: string[], provider: LLMProvider = createProvider()) {
     const prompt = `
 You are a financial data extraction engine.
 
@@ -31,8 +15,11 @@ STRICT RULES:
 - If no table exists → return empty records.
 
 Each record MUST include:
+- statementType ("income_statement" | "balance_sheet" | "cash_flow")
+- basis ("standalone" | "consolidated" | null, as stated in the statement title)
 - lineItem
 - year (as seen in image)
+- period: { type ("year" | "nine_months" | "half_year" | "quarter"), endDate (as seen), audited (true | false | null), label (column header) }
 - value (as seen)
 - sourceSnippet (exact text)
 
@@ -46,42 +33,22 @@ If no data is found:
 `;
 
     // Prepare image parts for the API
-    const imageParts = base64Images.map((base64) => ({
-        inlineData: {
-            data: base64,
-            mimeType: "image/jpeg",
-        },
+    const imageParts: ImagePart[] = base64Images.map((base64) => ({
+        data: base64,
+        mimeType: "image/jpeg",
     }));
 
     try {
-        const promptConfig = [prompt, ...imageParts];
+        console.log(`Sending prompt to ${provider.name} (${provider.model})...`);
 
-        console.log("Sending prompt to Gemini...");
-        const result = await model.generateContent(promptConfig);
-        const response = await result.response;
-        let text = response.text();
-
-        // Clean markdown code blocks if present
-        text = text.replace(/```json/g, '').replace(/```/g, '').trim();
-
-        console.log("----------------------------------------");
-        console.log("Gemini Raw Response:", text);
-        console.log("----------------------------------------");
-
-        const raw = JSON.parse(text);
-
-        // Step 1: Validate raw (loose)
-        const rawParsed = RawExtractionSchema.safeParse(raw);
-        if (!rawParsed.success) {
-            console.error("Raw Validation Error:", rawParsed.error);
-            throw new Error("Raw extraction failed: Output did not match basic structure.");
-        }
+        // Step 1: Extract and validate raw (loose); the provider retries malformed output
+        const raw = await provider.extractRecords(prompt, imageParts);
 
         // Step 2: Normalize
-        const normalized = normalizeRecords(rawParsed.data);
+        const normalized = normalizeRecords(raw);
 
-        // Step 3: Validate clean (strict)
-        const cleanParsed = CleanExtractionSchema.safeParse(normalized);
+        // Step 3: Cross-check totals, then validate clean (strict)
+        const cleanParsed = CleanExtractionSchema.safeParse(validateExtraction(normalized));
 
         if (!cleanParsed.success) {
             console.error("Clean Validation Error:", cleanParsed.error);
@@ -0,0 +1,44 @@
+import path from "path";
+import { ExtractionRepository } from "./repository";
+import { SqliteExtractionRepository } from "./sqlite-repository";
+
+export type { DocumentInfo, ExtractionRepository, ExtractionSummary, StoredExtraction } from "./repository";
+export { SqliteExtractionRepository } from "./sqlite-repository";
+
+/**
+ * Repository named by HISTORY_STORE:
+ * - sqlite (default): HISTORY_DB, default .data/history.sqlite
+ * - off: zero persistence, nothing about a document is written to disk
+ */
+export function createExtractionRepository(env: NodeJS.ProcessEnv = process.env): ExtractionRepository | null {
+    const kind = (env.HISTORY_STORE || "sqlite").toLowerCase();
+
+    switch (kind) {
+        case "sqlite":
+            return new SqliteExtractionRepository(env.HISTORY_DB || path.join(process.cwd(), ".data", "history.sqlite"));
+        case "off":
+            return null;
+        default:
+            throw new Error(`Unknown HISTORY_STORE "${kind}" (expected sqlite or off)`);
+    }
+}
+
+// One connection per server process (see getJobQueue for why it lives on globalThis)
+const globalForHistory = globalThis as typeof globalThis & {
+    extractionRepository?: ExtractionRepository | null;
+    extractionRepositoryError?: unknown; // why it could not be opened; not retried on every call
+};
+
+export function getExtractionRepository(): ExtractionRepository | null {
+    if (globalForHistory.extractionRepositoryError !== undefined) throw globalForHistory.extractionRepositoryError;
+
+    if (globalForHistory.extractionRepository === undefined) {
+        try {
+            globalForHistory.extractionRepository = createExtractionRepository();
+        } catch (error) {
+            globalForHistory.extractionRepositoryError = error;
+            throw error;
+        }
+    }
+    return globalForHistory.extractionRepository;
+}
@@ -0,0 +1,40 @@
+import { CleanExtraction, Correction } from "../schema";
+
+/**
+ * Extraction Repository: where finished extractions are kept so an analysis survives a reload.
+ * Backends store the whole CleanExtraction plus enough metadata to list runs without loading them.
+ */
+
+// The uploaded file, as described by the browser (the PDF itself never reaches the server)
+export interface DocumentInfo {
+    fileName: string;
+    fileHash: string; // sha256 of the PDF bytes, hex
+    pageCount: number;
+}
+
+export interface ExtractionSummary extends DocumentInfo {
+    id: string;        // the job ID the extraction ran under
+    name: string;      // display name; the file name until renamed
+    createdAt: string; // ISO 8601
+    updatedAt: string;
+    mode: string | null;     // "llm" / "deterministic"
+    provider: string | null; // null: no LLM was called
+    model: string | null;
+    recordCount: number;
+    notes: string | null;    // pipeline notes
+}
+
+export interface StoredExtraction extends ExtractionSummary {
+    result: CleanExtraction; // records as extracted, with every correction so far in `corrections`
+}
+
+export interface ExtractionRepository {
+    readonly kind: string; // "sqlite"
+
+    save(id: string, document: DocumentInfo, result: CleanExtraction): Promise<ExtractionSummary>;
+    list(): Promise<ExtractionSummary[]>; // newest first
+    get(id: string): Promise<StoredExtraction | undefined>;
+    rename(id: string, name: string): Promise<boolean>; // false: no such extraction
+    delete(id: string): Promise<boolean>;
+    addCorrection(id: string, correction: Correction): Promise<boolean>; // append-only audit trail
+}
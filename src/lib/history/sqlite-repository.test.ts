@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { makeExtraction, makeRecord } from "../test-helpers";
+import { DocumentInfo } from "./repository";
+import { SqliteExtractionRepository } from "./sqlite-repository";
+
+const REPORT: DocumentInfo = { fileName: "annual-report.pdf", fileHash: "ab12", pageCount: 5 };
+const RESULT = makeExtraction([makeRecord(), makeRecord({ lineItem: "Other income", value: 50, rowIndex: 1 })], {
+    notes: "Statement pages (ranked): p3 (income_statement, high)",
+    metadata: { provider: "mock", model: "fixtures", mode: "llm", promptVersion: "grid-v2", cache: { hits: 0, misses: 2 }, stages: [] },
+});
+
+describe("SqliteExtractionRepository", () => {
+    let repository: SqliteExtractionRepository;
+    beforeEach(() => {
+        mock.timers.enable({ apis: ["Date"], now: new Date("2025-05-01T10:00:00Z") });
+        repository = new SqliteExtractionRepository(":memory:");
+    });
+    afterEach(() => mock.timers.reset());
+
+    it("saves an extraction and fetches it back whole", async () => {
+        const summary = await repository.save("job-1", REPORT, RESULT);
+        assert.deepEqual(summary, {
+            id: "job-1", name: "annual-report.pdf", fileName: "annual-report.pdf", fileHash: "ab12", pageCount: 5,
+            createdAt: "2025-05-01T10:00:00.000Z", updatedAt: "2025-05-01T10:00:00.000Z",
+            mode: "llm", provider: "mock", model: "fixtures", recordCount: 2, notes: RESULT.notes,
+        });
+
+        const stored = await repository.get("job-1");
+        assert.deepEqual(stored, { ...summary, result: RESULT });
+        assert.equal(await repository.get("job-2"), undefined);
+    });
+
+    it("lists summaries newest first", async () => {
+        await repository.save("job-1", REPORT, RESULT);
+        mock.timers.tick(60_000);
+        await repository.save("job-2", { ...REPORT, fileName: "q3-results.pdf" }, makeExtraction([]));
+
+        const list = await repository.list();
+        assert.deepEqual(list.map(s => [s.id, s.name, s.recordCount]), [["job-2", "q3-results.pdf", 0], ["job-1", "annual-report.pdf", 2]]);
+        assert.equal("result" in list[0], false);
+    });
+
+    it("renames and deletes, and says when there is nothing to change", async () => {
+        await repository.save("job-1", REPORT, RESULT);
+
+        assert.equal(await repository.rename("job-1", "FY25 annual report"), true);
+        assert.equal((await repository.get("job-1"))?.name, "FY25 annual report");
+        assert.equal(await repository.rename("job-2", "nothing"), false);
+
+        assert.equal(await repository.delete("job-1"), true);
+        assert.deepEqual(await repository.list(), []);
+        assert.equal(await repository.delete("job-1"), false);
+    });
+});
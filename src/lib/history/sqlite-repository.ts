@@ -0,0 +1,146 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import path from "path";
+import { CleanExtraction, CleanExtractionSchema, Correction, CorrectionSchema } from "../schema";
+import { DocumentInfo, ExtractionRepository, ExtractionSummary, StoredExtraction } from "./repository";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS extractions (
+    id           TEXT PRIMARY KEY,
+    name         TEXT NOT NULL,
+    file_name    TEXT NOT NULL,
+    file_hash    TEXT NOT NULL,
+    page_count   INTEGER NOT NULL,
+    created_at   TEXT NOT NULL,
+    updated_at   TEXT NOT NULL,
+    mode         TEXT,
+    provider     TEXT,
+    model        TEXT,
+    record_count INTEGER NOT NULL,
+    notes        TEXT,
+    result       TEXT NOT NULL -- CleanExtraction as JSON
+);
+CREATE INDEX IF NOT EXISTS extractions_file_hash ON extractions (file_hash);
+CREATE INDEX IF NOT EXISTS extractions_created_at ON extractions (created_at);
+CREATE TABLE IF NOT EXISTS corrections (
+    id            TEXT PRIMARY KEY,
+    extraction_id TEXT NOT NULL,
+    reviewer      TEXT NOT NULL,
+    at            TEXT NOT NULL,
+    correction    TEXT NOT NULL -- Correction as JSON
+);
+CREATE INDEX IF NOT EXISTS corrections_extraction_id ON corrections (extraction_id);
+`;
+
+const SUMMARY_COLUMNS = "id, name, file_name, file_hash, page_count, created_at, updated_at, mode, provider, model, record_count, notes";
+
+interface SummaryRow {
+    id: string;
+    name: string;
+    file_name: string;
+    file_hash: string;
+    page_count: number;
+    created_at: string;
+    updated_at: string;
+    mode: string | null;
+    provider: string | null;
+    model: string | null;
+    record_count: number;
+    notes: string | null;
+}
+
+const toSummary = (row: SummaryRow): ExtractionSummary => ({
+    id: row.id,
+    name: row.name,
+    fileName: row.file_name,
+    fileHash: row.file_hash,
+    pageCount: row.page_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    mode: row.mode,
+    provider: row.provider,
+    model: row.model,
+    recordCount: row.record_count,
+    notes: row.notes,
+});
+
+/**
+ * One SQLite file on the server's disk (better-sqlite3, synchronous under the async interface).
+ */
+export class SqliteExtractionRepository implements ExtractionRepository {
+    readonly kind = "sqlite";
+    private db: Database.Database;
+
+    constructor(file: string) {
+        if (file !== ":memory:") mkdirSync(path.dirname(file), { recursive: true });
+        this.db = new Database(file);
+        this.db.pragma("journal_mode = WAL");
+        this.db.exec(SCHEMA);
+    }
+
+    async save(id: string, document: DocumentInfo, result: CleanExtraction): Promise<ExtractionSummary> {
+        const now = new Date().toISOString();
+        const row: SummaryRow = {
+            id,
+            name: document.fileName,
+            file_name: document.fileName,
+            file_hash: document.fileHash,
+            page_count: document.pageCount,
+            created_at: now,
+            updated_at: now,
+            mode: result.metadata?.mode ?? null,
+            provider: result.metadata?.provider ?? null,
+            model: result.metadata?.model ?? null,
+            record_count: result.records.length,
+            notes: result.notes ?? null,
+        };
+
+        this.db.prepare(`
+            INSERT OR REPLACE INTO extractions (${SUMMARY_COLUMNS}, result)
+            VALUES (@id, @name, @file_name, @file_hash, @page_count, @created_at, @updated_at, @mode, @provider, @model, @record_count, @notes, @result)
+        `).run({ ...row, result: JSON.stringify(result) });
+
+        return toSummary(row);
+    }
+
+    async list(): Promise<ExtractionSummary[]> {
+        const rows = this.db.prepare(`SELECT ${SUMMARY_COLUMNS} FROM extractions ORDER BY created_at DESC`).all() as SummaryRow[];
+        return rows.map(toSummary);
+    }
+
+    async get(id: string): Promise<StoredExtraction | undefined> {
+        const row = this.db.prepare(`SELECT ${SUMMARY_COLUMNS}, result FROM extractions WHERE id = ?`).get(id) as (SummaryRow & { result: string }) | undefined;
+        if (!row) return undefined;
+
+        // Insertion order, so corrections replay in the order they were made
+        const corrections = (this.db.prepare("SELECT correction FROM corrections WHERE extraction_id = ? ORDER BY rowid").all(id) as { correction: string }[])
+            .map(c => CorrectionSchema.parse(JSON.parse(c.correction)));
+
+        // Re-validate: rows written by an older schema must not reach the UI half-formed
+        const result = CleanExtractionSchema.parse(JSON.parse(row.result));
+        return { ...toSummary(row), result: corrections.length > 0 ? { ...result, corrections } : result };
+    }
+
+    async rename(id: string, name: string): Promise<boolean> {
+        const info = this.db.prepare("UPDATE extractions SET name = ?, updated_at = ? WHERE id = ?").run(name, new Date().toISOString(), id);
+        return info.changes > 0;
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.db.transaction(() => {
+            this.db.prepare("DELETE FROM corrections WHERE extraction_id = ?").run(id);
+            return this.db.prepare("DELETE FROM extractions WHERE id = ?").run(id).changes > 0;
+        })();
+    }
+
+    async addCorrection(id: string, correction: Correction): Promise<boolean> {
+        return this.db.transaction(() => {
+            const now = new Date().toISOString();
+            if (this.db.prepare("UPDATE extractions SET updated_at = ? WHERE id = ?").run(now, id).changes === 0) return false;
+
+            this.db.prepare("INSERT INTO corrections (id, extraction_id, reviewer, at, correction) VALUES (?, ?, ?, ?, ?)")
+                .run(correction.id, id, correction.reviewer, correction.at, JSON.stringify(correction));
+            return true;
+        })();
+    }
+}
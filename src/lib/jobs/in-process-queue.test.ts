@@ -0,0 +1,92 @@
+import { before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { ProgressEvent } from "../schema";
+import { makeExtraction, makeRecord } from "../test-helpers";
+import { InProcessQueue } from "./in-process-queue";
+import { JobEvent, JobInput, JobRunner } from "./queue";
+
+// Jobs log as they move; keep the test output to the results
+before(() => {
+    mock.method(console, "log", () => { });
+    mock.method(console, "error", () => { });
+});
+
+const READING: ProgressEvent = { stage: "detection", status: "running", message: "Reading page 1 of 1" };
+const RESULT = makeExtraction([makeRecord()]);
+
+const input = (pages = 1): JobInput => ({ images: Array(pages).fill("page"), textData: [], options: {} });
+
+// A runner the test steps through: each job reports progress, then waits to be released.
+// A job without pages fails.
+function steppedRunner() {
+    const releases: (() => void)[] = [];
+    const runner: JobRunner = async (_id, { images }, onProgress) => {
+        onProgress(READING);
+        await new Promise<void>(resolve => releases.push(resolve));
+        if (images.length === 0) throw new Error("No pages to read");
+        return RESULT;
+    };
+    // Lets the job at `index` finish, then lets the queue settle
+    const release = async (index: number) => {
+        releases[index]();
+        await new Promise(resolve => setImmediate(resolve));
+    };
+    return { runner, release };
+}
+
+describe("InProcessQueue", () => {
+    it("moves a job from running to done and streams its progress", async () => {
+        const { runner, release } = steppedRunner();
+        const queue = new InProcessQueue(runner);
+        const id = await queue.submit(input());
+
+        const events: JobEvent[] = [];
+        await queue.subscribe(id, event => events.push(event));
+        assert.equal((await queue.get(id))?.status, "running");
+
+        await release(0);
+        const job = await queue.get(id);
+        assert.equal(job?.status, "done");
+        assert.deepEqual(job?.events, [READING]);
+        assert.deepEqual(events, [{ type: "progress", progress: READING }, { type: "done", result: RESULT }]);
+    });
+
+    it("queues jobs beyond its concurrency until one finishes", async () => {
+        const { runner, release } = steppedRunner();
+        const queue = new InProcessQueue(runner, { concurrency: 1 });
+        const first = await queue.submit(input());
+        const second = await queue.submit(input());
+
+        assert.equal((await queue.get(second))?.status, "queued");
+        await release(0);
+        assert.equal((await queue.get(first))?.status, "done");
+        assert.equal((await queue.get(second))?.status, "running");
+    });
+
+    it("replays past events to a late subscriber", async () => {
+        const { runner, release } = steppedRunner();
+        const queue = new InProcessQueue(runner);
+        const id = await queue.submit(input());
+        await release(0);
+
+        const events: JobEvent[] = [];
+        const unsubscribe = await queue.subscribe(id, event => events.push(event));
+        assert.ok(unsubscribe);
+        assert.deepEqual(events.map(e => e.type), ["progress", "done"]);
+        assert.equal(await queue.subscribe("no-such-job", () => { }), undefined);
+    });
+
+    it("records the error of a failed job", async () => {
+        const { runner, release } = steppedRunner();
+        const queue = new InProcessQueue(runner);
+        const id = await queue.submit(input(0));
+
+        const events: JobEvent[] = [];
+        await queue.subscribe(id, event => events.push(event));
+        await release(0);
+
+        const job = await queue.get(id);
+        assert.deepEqual([job?.status, job?.error], ["failed", "No pages to read"]);
+        assert.deepEqual(events.at(-1), { type: "failed", error: "No pages to read" });
+    });
+});
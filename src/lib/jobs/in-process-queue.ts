@@ -0,0 +1,120 @@
+import { randomUUID } from "crypto";
+import { JobEvent, JobInput, JobQueue, JobRunner, JobSnapshot } from "./queue";
+
+interface InProcessJob extends JobSnapshot {
+    input?: JobInput; // dropped once the job starts, the page images are large
+    listeners: Set<(event: JobEvent) => void>;
+}
+
+export interface InProcessQueueOptions {
+    concurrency?: number; // jobs running at once (default 1: LLM rate limits are per key)
+    retentionMs?: number; // how long finished jobs stay readable (default 30 minutes)
+}
+
+/**
+ * Runs jobs in the server process itself, in submission order. Good for development and
+ * single-instance deployments; jobs are lost when the process restarts.
+ */
+export class InProcessQueue implements JobQueue {
+    readonly kind = "in-process";
+    private jobs = new Map<string, InProcessJob>();
+    private pending: string[] = [];
+    private running = 0;
+    private concurrency: number;
+    private retentionMs: number;
+
+    constructor(private runner: JobRunner, options: InProcessQueueOptions = {}) {
+        this.concurrency = Math.max(1, options.concurrency ?? 1);
+        this.retentionMs = options.retentionMs ?? 30 * 60 * 1000;
+    }
+
+    async submit(input: JobInput): Promise<string> {
+        this.evictExpired();
+
+        const id = randomUUID();
+        const now = Date.now();
+        this.jobs.set(id, { id, status: "queued", createdAt: now, updatedAt: now, events: [], input, listeners: new Set() });
+        this.pending.push(id);
+        console.log(`[JOB ${id}] Queued (${this.pending.length} waiting, ${this.running} running)`);
+
+        this.drain();
+        return id;
+    }
+
+    async get(id: string): Promise<JobSnapshot | undefined> {
+        const job = this.jobs.get(id);
+        if (!job) return undefined;
+
+        const { id: jobId, status, createdAt, updatedAt, events, result, error } = job;
+        return { id: jobId, status, createdAt, updatedAt, events: [...events], result, error };
+    }
+
+    async subscribe(id: string, listener: (event: JobEvent) => void): Promise<(() => void) | undefined> {
+        const job = this.jobs.get(id);
+        if (!job) return undefined;
+
+        job.events.forEach(progress => listener({ type: "progress", progress }));
+        if (job.status === "done") listener({ type: "done", result: job.result! });
+        if (job.status === "failed") listener({ type: "failed", error: job.error! });
+        if (job.status === "done" || job.status === "failed") return () => { };
+
+        job.listeners.add(listener);
+        return () => job.listeners.delete(listener);
+    }
+
+    private drain() {
+        while (this.running < this.concurrency && this.pending.length > 0) {
+            const job = this.jobs.get(this.pending.shift()!);
+            if (job) void this.run(job);
+        }
+    }
+
+    private async run(job: InProcessJob) {
+        const input = job.input!;
+        job.input = undefined;
+        job.status = "running";
+        job.updatedAt = Date.now();
+        this.running++;
+        console.log(`[JOB ${job.id}] Running`);
+
+        try {
+            job.result = await this.runner(job.id, input, progress => {
+                job.events.push(progress);
+                job.updatedAt = Date.now();
+                this.emit(job, { type: "progress", progress });
+            });
+            job.status = "done";
+            this.emit(job, { type: "done", result: job.result });
+            console.log(`[JOB ${job.id}] Done`);
+        } catch (error) {
+            job.error = error instanceof Error ? error.message : String(error);
+            job.status = "failed";
+            this.emit(job, { type: "failed", error: job.error });
+            console.error(`[JOB ${job.id}] Failed:`, job.error);
+        } finally {
+            job.updatedAt = Date.now();
+            job.listeners.clear();
+            this.running--;
+            this.drain();
+        }
+    }
+
+    private emit(job: InProcessJob, event: JobEvent) {
+        job.listeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (error) {
+                // A closed stream must not stop the job or the other subscribers
+                console.warn(`[JOB ${job.id}] Listener error:`, error);
+                job.listeners.delete(listener);
+            }
+        });
+    }
+
+    private evictExpired() {
+        const cutoff = Date.now() - this.retentionMs;
+        this.jobs.forEach((job, id) => {
+            if ((job.status === "done" || job.status === "failed") && job.updatedAt < cutoff) this.jobs.delete(id);
+        });
+    }
+}
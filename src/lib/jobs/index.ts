@@ -0,0 +1,66 @@
+import { runExtractionPipeline } from "../pipeline";
+import { CleanExtraction } from "../schema";
+import { getExtractionRepository } from "../history";
+import { JobQueue, JobRunner } from "./queue";
+import { InProcessQueue } from "./in-process-queue";
+
+export type { JobEvent, JobInput, JobOptions, JobQueue, JobRunner, JobSnapshot } from "./queue";
+export { InProcessQueue } from "./in-process-queue";
+export type { InProcessQueueOptions } from "./in-process-queue";
+
+// The worker side of a job: the full extraction pipeline, then the history (unless turned off)
+export const runPipelineJob: JobRunner = async (id, input, onProgress) => {
+    const result = await runExtractionPipeline(input.images, input.textData, { ...input.options, onProgress });
+
+    if (input.document) {
+        try {
+            // Opening the database can fail too (read-only disk, native module missing)
+            const repository = getExtractionRepository();
+            if (repository) {
+                await repository.save(id, input.document, result);
+                console.log(`[HISTORY] Saved ${id} (${repository.kind})`);
+            }
+        } catch (error) {
+            // The analyst still gets the result; only reopening it later is lost
+            console.warn(`[HISTORY] Could not save ${id}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Builds the queue named by JOB_QUEUE (default "in-process"):
+ * - in-process: runs jobs inside the server, JOB_CONCURRENCY at a time (default 1)
+ */
+export function createJobQueue(env: NodeJS.ProcessEnv = process.env): JobQueue {
+    const kind = (env.JOB_QUEUE || "in-process").toLowerCase();
+
+    switch (kind) {
+        case "in-process":
+            return new InProcessQueue(runPipelineJob, { concurrency: Number(env.JOB_CONCURRENCY) || 1 });
+        default:
+            throw new Error(`Unknown JOB_QUEUE "${kind}" (expected in-process)`);
+    }
+}
+
+// One queue per server process. Kept on globalThis because server actions and route
+// handlers are bundled separately (and dev reloads modules), but must see the same jobs.
+const globalForJobs = globalThis as typeof globalThis & { jobQueue?: JobQueue };
+
+export function getJobQueue(): JobQueue {
+    globalForJobs.jobQueue ??= createJobQueue();
+    return globalForJobs.jobQueue;
+}
+
+// Resolves with the job's result (or rejects with its error) once it finishes
+export function waitForJob(queue: JobQueue, id: string): Promise<CleanExtraction> {
+    return new Promise((resolve, reject) => {
+        queue.subscribe(id, event => {
+            if (event.type === "done") resolve(event.result);
+            if (event.type === "failed") reject(new Error(event.error));
+        }).then(unsubscribe => {
+            if (!unsubscribe) reject(new Error(`Unknown job ${id}`));
+        }, reject);
+    });
+}
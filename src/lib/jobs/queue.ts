@@ -0,0 +1,48 @@
+import { CleanExtraction, JobStatus, ProgressEvent } from "../schema";
+import { TextItem } from "../pdf-processor";
+import { PipelineOptions, ProgressListener } from "../pipeline";
+import { DocumentInfo } from "../history";
+
+/**
+ * Job Queue: runs the extraction pipeline outside the request that submitted it.
+ * Submitting returns a job ID at once; progress and the result are read by subscribing.
+ * Backends only decide where and when a job runs (see InProcessQueue).
+ */
+
+// Serializable pipeline options: providers and caches are configured on the worker side
+export type JobOptions = Omit<PipelineOptions, "provider" | "cache" | "onProgress">;
+
+export interface JobInput {
+    images: string[]; // base64 page images
+    textData: TextItem[];
+    options: JobOptions;
+    document?: DocumentInfo; // set: the result is saved to the extraction history under the job ID
+}
+
+export type JobEvent =
+    | { type: "progress"; progress: ProgressEvent }
+    | { type: "done"; result: CleanExtraction }
+    | { type: "failed"; error: string };
+
+export interface JobSnapshot {
+    id: string;
+    status: JobStatus;
+    createdAt: number;
+    updatedAt: number;
+    events: ProgressEvent[]; // every progress event so far, oldest first
+    result?: CleanExtraction;
+    error?: string;
+}
+
+// What a worker does with a job: the pipeline, in production
+export type JobRunner = (id: string, input: JobInput, onProgress: ProgressListener) => Promise<CleanExtraction>;
+
+export interface JobQueue {
+    readonly kind: string; // "in-process"
+
+    submit(input: JobInput): Promise<string>;
+    get(id: string): Promise<JobSnapshot | undefined>;
+    // Replays past events, then streams new ones until "done" or "failed".
+    // Returns an unsubscribe function, or undefined for an unknown job.
+    subscribe(id: string, listener: (event: JobEvent) => void): Promise<(() => void) | undefined>;
+}
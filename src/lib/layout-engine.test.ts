@@ -0,0 +1,224 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TextItem } from "./pdf-processor";
+import { GridRow, LayoutEngine } from "./layout-engine";
+
+const FONT_SIZE = 10;
+
+// A text item as the PDF text layer reports it, about half the font size wide per character
+function text(str: string, x: number, y: number, page = 1): TextItem {
+    return { str, x, y, width: str.length * FONT_SIZE / 2, height: FONT_SIZE, page };
+}
+
+// Text ending at `right`, as numbers are printed
+function rightAligned(str: string, right: number, y: number, page = 1): TextItem {
+    const item = text(str, 0, y, page);
+    return { ...item, x: right - item.width };
+}
+
+// Right edges of the two value columns
+const VALUE_EDGES = [400, 500];
+
+// One statement row: the label at `indent`, then a value per column
+function line(y: number, label: string, values: string[] = [], indent = 50, page = 1): TextItem[] {
+    return [text(label, indent, y, page), ...values.map((v, i) => rightAligned(v, VALUE_EDGES[i], y, page))];
+}
+
+const labelOf = (row: GridRow) => row.cells[0].text;
+
+describe("buildMultiPageGrid", () => {
+    // Page 1 of an income statement that continues on page 2
+    const header = (page: number) => [text("Particulars", 50, 760, page), rightAligned("FY 2024-25", 400, 760, page), rightAligned("FY 2023-24", 500, 760, page)];
+    const footer = (page: number) => [text(`Page ${page} of 2`, 280, 40, page), text("Acme Limited Annual Report", 50, 26, page)];
+    const items = [
+        ...header(1),
+        ...line(740, "Revenue from operations", ["1,000", "900"]),
+        ...line(726, "Other income", ["50", "40"]),
+        ...footer(1),
+        text("(Contd.)", 260, 780, 2),
+        ...header(2),
+        ...line(740, "Cost of materials consumed", ["600", "550"], 50, 2),
+        ...line(726, "Employee benefits expense", ["200", "180"], 50, 2),
+        ...footer(2),
+    ];
+
+    it("joins the pages into one table, dropping page footers and repeated headers", () => {
+        const { rows } = new LayoutEngine().buildMultiPageGrid(items);
+
+        assert.deepEqual(rows.map(labelOf), [
+            "Particulars", "Revenue from operations", "Other income", "Cost of materials consumed", "Employee benefits expense",
+        ]);
+        assert.deepEqual(rows.map(r => r.page), [1, 1, 1, 2, 2]);
+    });
+
+    it("lines the columns up across pages", () => {
+        const { rows, headers } = new LayoutEngine().buildMultiPageGrid(items);
+
+        const valueColumns = headers.filter(c => c.align === "right");
+        assert.equal(valueColumns.length, 2);
+        const valueOf = (label: string) => rows.find(r => labelOf(r) === label)!.cells.find(c => c.colIndex === headers.indexOf(valueColumns[1]))?.text;
+        assert.equal(valueOf("Other income"), "40");
+        assert.equal(valueOf("Employee benefits expense"), "180");
+    });
+});
+
+describe("assignHierarchy", () => {
+    const periods = [text("Particulars", 50, 760), rightAligned("FY 2024-25", 400, 760), rightAligned("FY 2023-24", 500, 760)];
+
+    it("nests indented rows under the heading above them", () => {
+        const { rows } = new LayoutEngine().buildMultiPageGrid([
+            ...periods,
+            ...line(740, "Income"),
+            ...line(726, "Revenue from operations", ["1,000", "900"], 60),
+            ...line(712, "Other income", ["50", "40"], 60),
+            ...line(698, "Total income", ["1,050", "940"]),
+            ...line(684, "Expenses"),
+            ...line(670, "Other expenses", [], 60),
+            ...line(656, "Power and fuel", ["30", "25"], 70),
+            ...line(642, "Total expenses", ["30", "25"]),
+        ]);
+        const parentOf = (label: string) => {
+            const row = rows.find(r => labelOf(r) === label)!;
+            return row.parentIndex === null ? null : labelOf(rows[row.parentIndex!]);
+        };
+
+        assert.deepEqual(rows.map(r => r.depth), [0, 0, 1, 1, 1, 0, 1, 2, 1]);
+        assert.equal(parentOf("Revenue from operations"), "Income");
+        assert.equal(parentOf("Total income"), "Income");
+        assert.equal(parentOf("Power and fuel"), "Other expenses");
+        assert.equal(parentOf("Expenses"), null);
+    });
+
+    it("reads items printed at their heading's indent as its children, up to the total", () => {
+        const { rows } = new LayoutEngine().buildMultiPageGrid([
+            ...periods,
+            ...line(740, "Current assets"),
+            ...line(726, "Inventories", ["200", "180"]),
+            ...line(712, "Trade receivables", ["150", "120"]),
+            ...line(698, "Total current assets", ["350", "300"]),
+            ...line(684, "Total assets", ["950", "900"]),
+        ]);
+
+        assert.deepEqual(rows.slice(1).map(r => [labelOf(r), r.depth]), [
+            ["Current assets", 0], ["Inventories", 1], ["Trade receivables", 1], ["Total current assets", 1], ["Total assets", 0],
+        ]);
+    });
+
+    it("puts a \"Less:\" row one level below the row it adjusts", () => {
+        const { rows } = new LayoutEngine().buildMultiPageGrid([
+            ...periods,
+            ...line(740, "Profit before tax", ["250", "230"]),
+            ...line(726, "Less: Tax expense", ["63", "58"]),
+            ...line(712, "Profit for the year", ["187", "172"]),
+        ]);
+
+        assert.deepEqual(rows.slice(1).map(r => [labelOf(r), r.depth]), [
+            ["Profit before tax", 0], ["Less: Tax expense", 1], ["Profit for the year", 0],
+        ]);
+        assert.equal(rows[2].parentIndex, 1);
+    });
+});
+
+describe("buildGrid: wrapped labels", () => {
+    it("joins the first line of a wrapped label to the row that carries its values", () => {
+        const { rows } = new LayoutEngine().buildGrid([
+            ...line(700, "Revenue from operations", ["1,000", "900"]),
+            ...line(686, "Net gain on fair value changes of financial"),
+            ...line(672, "instruments measured at FVTPL", ["12.5", "10.1"]),
+            ...line(658, "Other income", ["50", "40"]),
+        ]);
+
+        assert.deepEqual(rows.map(labelOf), [
+            "Revenue from operations", "Net gain on fair value changes of financial instruments measured at FVTPL", "Other income",
+        ]);
+        // The label's box covers both lines
+        assert.deepEqual(rows[1].cells[0].box, { page: 1, x: 50, y: 672, width: 215, height: 24 });
+    });
+
+    it("appends a continuation line below a value row", () => {
+        const { rows } = new LayoutEngine().buildGrid([
+            ...line(700, "Provision for doubtful debts and", ["15", "12"]),
+            ...line(686, "advances"),
+            ...line(672, "Other expenses", ["80", "75"]),
+        ]);
+
+        assert.deepEqual(rows.map(labelOf), ["Provision for doubtful debts and advances", "Other expenses"]);
+    });
+
+    it("keeps a heading ending in \":\" on a row of its own", () => {
+        const { rows } = new LayoutEngine().buildGrid([
+            ...line(700, "Other income", ["50", "40"]),
+            ...line(686, "Expenses:"),
+            ...line(672, "Cost of materials consumed", ["600", "550"]),
+        ]);
+
+        assert.deepEqual(rows.map(labelOf), ["Other income", "Expenses:", "Cost of materials consumed"]);
+    });
+});
+
+describe("buildGrid: columns", () => {
+    it("groups right-aligned numbers of any width into one column by their right edge", () => {
+        const { rows, headers } = new LayoutEngine().buildGrid([
+            ...line(700, "Revenue from operations", ["12,34,567", "9"]),
+            ...line(686, "Other income", ["5", "1,23,456"]),
+            ...line(672, "Finance costs", ["(1,234)", "-"]),
+        ]);
+
+        assert.deepEqual(headers.map(c => [c.align, c.x]), [["left", 50], ["right", 400], ["right", 500]]);
+        assert.deepEqual(rows.map(r => r.cells.map(c => c.colIndex)), [[0, 1, 2], [0, 1, 2], [0, 1, 2]]);
+    });
+
+    it("places text printed inside a value column in that column", () => {
+        const { rows } = new LayoutEngine().buildGrid([
+            ...line(700, "Revenue from operations", ["1,000", "900"]),
+            text("Exceptional items", 50, 686), text("Nil", 385, 686), rightAligned("25", 500, 686),
+        ]);
+
+        assert.deepEqual(rows[1].cells.map(c => [c.text, c.colIndex]), [["Exceptional items", 0], ["Nil", 1], ["25", 2]]);
+    });
+
+    it("scores how tightly each column's cells share its edge", () => {
+        const { headers } = new LayoutEngine().buildGrid([
+            ...line(700, "Revenue from operations", ["1,000", "900"]),
+            text("Other income", 50, 686), rightAligned("50", 404, 686), rightAligned("40", 500, 686),
+            text("Finance costs", 50, 672), rightAligned("20", 396, 672), rightAligned("15", 500, 672),
+        ]);
+
+        assert.deepEqual(headers.map(c => c.fit), [1, 0.87, 1]);
+    });
+});
+
+describe("labelColumns", () => {
+    // Quarterly results: a title block, then three header rows over three value columns
+    const items = [
+        { ...text("ACME LIMITED", 250, 800), height: 14 },
+        text("₹ in Crores", 545, 790),
+        text("Statement of Profit and Loss for the year ended 31 March 2025", 50, 780),
+        text("Quarter ended", 385, 760), text("Year ended", 555, 760),
+        text("Particulars", 50, 746), rightAligned("31.12.2024", 400, 746), rightAligned("30.09.2024", 500, 746), rightAligned("31.03.2024", 600, 746),
+        rightAligned("(Unaudited)", 400, 732), rightAligned("(Unaudited)", 500, 732), rightAligned("(Audited)", 600, 732),
+        text("Income", 50, 714),
+        text("Revenue from operations", 60, 700), rightAligned("1,000.00", 400, 700), rightAligned("950.00", 500, 700), rightAligned("3,800.00", 600, 700),
+        text("Other income", 60, 686), rightAligned("50.00", 400, 686), rightAligned("45.00", 500, 686), rightAligned("180.00", 600, 686),
+    ];
+
+    it("merges stacked header rows into one label per column, spanning headers included", () => {
+        const { headers } = new LayoutEngine().buildGrid(items);
+
+        assert.deepEqual(headers.map(c => c.label), [
+            "Particulars",
+            "Quarter ended 31.12.2024 (Unaudited)",
+            "Quarter ended 30.09.2024 (Unaudited)",
+            "Year ended 31.03.2024 (Audited)",
+        ]);
+    });
+
+    it("ends the header band at the last column header row, so section headings stay in the body", () => {
+        const engine = new LayoutEngine();
+        const { rows, headers } = engine.buildGrid(items);
+        const header = engine.headerRows(rows, headers);
+
+        assert.equal(header.length, 6);
+        assert.equal(labelOf(rows[header.length]), "Income");
+    });
+});
@@ -1,33 +1,93 @@
 
 import { TextItem } from "./pdf-processor";
+import { parseUnitCaption } from "./units";
+import { BoundingBox } from "./schema";
 
 // Types for our Grid
 export interface GridRow {
     y: number;
     cells: GridCell[];
+    page?: number; // source page (set by buildMultiPageGrid)
+    depth?: number; // 0 = top level (set by assignHierarchy)
+    parentIndex?: number | null; // index of the parent heading row in the same grid
 }
 
 export interface GridCell {
     x: number;
     text: string;
+    width?: number; // text width from the PDF text layer
+    height?: number; // text height (font size) from the PDF text layer
     colIndex?: number; // assigned later
+    box?: BoundingBox; // where the cell's text sits on the page (grows when wrapped labels merge)
 }
 
+export interface GridColumn {
+    x: number; // aligned edge: right edge for numeric columns, left edge for text columns
+    align: "left" | "right";
+    start: number; // leftmost x of the column's cells
+    end: number; // rightmost x + width of the column's cells
+    fit: number; // 0-1: how tightly the column's cells share the aligned edge (1 = exact)
+    label?: string; // stacked header cells merged top-down (set by labelColumns)
+}
+
+// Smallest box around the given boxes on the first one's page; null when there are none
+export function unionBoxes(boxes: (BoundingBox | undefined)[]): BoundingBox | null {
+    const onPage = boxes.filter((b): b is BoundingBox => !!b && b.page === boxes.find(Boolean)?.page);
+    if (onPage.length === 0) return null;
+
+    const left = Math.min(...onPage.map(b => b.x));
+    const bottom = Math.min(...onPage.map(b => b.y));
+    const right = Math.max(...onPage.map(b => b.x + b.width));
+    const top = Math.max(...onPage.map(b => b.y + b.height));
+    return { page: onPage[0].page, x: left, y: bottom, width: right - left, height: top - bottom };
+}
+
+// "1,234", "(500)", "-12.5" -- enough to tell data rows from header/footer text
+export const NUMERIC_TEXT = /^\(?-?[\d,]+(\.\d+)?\)?$/;
+
+// "2025" in a header row. Amounts of 1,000 and up are printed with separators, so a bare 4-digit number is a year
+const YEAR_TEXT = /^(19|20)\d{2}$/;
+
+// "12", "Page 12", "12 of 40", "Page 12/40"
+const PAGE_NUMBER_TEXT = /^(page\s*)?\d{1,4}(\s*(of|\/)\s*\d{1,4})?$/i;
+
+// "Less: Tax expense", "Add: Other income" -- one level below the row they adjust
+const ADJUSTMENT_PREFIX = /^\s*(less|add)\s*:/i;
+
+// Subtotal rows close the heading group they sum up
+const TOTAL_PREFIX = /^\s*total\b/i;
+
+// Header text naming a period: a year or a date ("2024", "31.03.2025", "March 31, 2025", "Mar-25")
+const PERIOD_TEXT = /\b(19|20)\d{2}\b|\b\d{1,2}[./-]\d{1,2}[./-]\d{2,4}\b|\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*[\s.,-]+\d{2}\b/i;
+
+// Header of the label column
+const LABEL_HEADER_TEXT = /^(particulars|description|notes?|note\s*no\.?|sr\.?\s*no\.?)$/i;
+
+// Continuation markers printed above a table that runs onto the next page
+const CONTINUED_TEXT = /^\(?\s*(contd\.?|continued)\s*\)?$/i;
+
 /**
  * The Layout Engine: Converts raw text items into a structured Table Matrix
  * Deterministic. No AI.
  */
 export class LayoutEngine {
 
-    // Thresholds
-    private ROW_TOLERANCE_Y = 5; // Pixels
-    private COLUMN_TOLERANCE_X = 20;
-    private MATCH_TOLERANCE = 30; // lenient matching
+    // Thresholds, in multiples of the body font size so they scale with the document
+    private ROW_TOLERANCE = 0.5; // baselines closer than this share a row
+    private COLUMN_TOLERANCE = 2; // aligned edges closer than this share a column
+    private MATCH_TOLERANCE = 3; // lenient matching
+    private INDENT_TOLERANCE = 0.3; // label x-offsets closer than this share an indent level
+    private DEFAULT_FONT_SIZE = 10; // when the text layer reports no heights
+
+    // Body font size of the grid being built (median text height)
+    private fontSize = this.DEFAULT_FONT_SIZE;
 
     /**
      * Main entry point: Build a grid from text items
      */
-    buildGrid(items: TextItem[]): { rows: GridRow[], headers: any[] } {
+    buildGrid(items: TextItem[]): { rows: GridRow[], headers: GridColumn[] } {
+        this.fontSize = this.medianFontSize(items);
+
         // 1. Group by Y (Rows)
         const rows = this.groupByRows(items);
 
@@ -36,28 +96,374 @@ export class LayoutEngine {
         // We want top-down, so we sort DESCENDING.
         rows.sort((a, b) => b.y - a.y);
 
-        // 3. Detect Global Columns (X-clusters)
-        const globalColumns = this.detectColumns(rows);
+        // 2b. Join wrapped row labels onto the row that carries the values
+        const merged = this.mergeWrappedLabels(rows);
+
+        // 3. Detect Global Columns (right edges for numbers, left edges for text)
+        const globalColumns = this.detectColumns(merged);
 
         // 4. Align cells to global columns
+        this.alignCellsToColumns(merged, globalColumns);
+
+        // 5. One header label per column from the stacked header rows
+        this.labelColumns(merged, globalColumns);
+
+        return { rows: merged, headers: globalColumns };
+    }
+
+    /**
+     * Builds ONE logical table from a statement that spans consecutive pages.
+     * - Columns are detected across all pages together so they line up.
+     * - Header rows repeated at the top of continuation pages are dropped.
+     * - Page footers (page numbers, running footers) are dropped.
+     * Every row keeps the page it came from.
+     */
+    buildMultiPageGrid(items: TextItem[]): { rows: GridRow[], headers: GridColumn[] } {
+        this.fontSize = this.medianFontSize(items);
+        const pages = Array.from(new Set(items.map(i => i.page))).sort((a, b) => a - b);
+
+        // 1. Rows per page, top-down (see buildGrid for the Y direction)
+        const pageRows = pages.map(page => {
+            const rows = this.groupByRows(items.filter(i => i.page === page));
+            rows.sort((a, b) => b.y - a.y);
+            rows.forEach(r => {
+                r.page = page;
+                r.cells.sort((a, b) => a.x - b.x);
+            });
+            return this.mergeWrappedLabels(rows);
+        });
+
+        // 2. Drop footers. A running footer repeats on other pages, so compare bottom bands.
+        const footerBands = pageRows.map(rows => this.footerBand(rows));
+        const stripped = pageRows.map((rows, p) => {
+            const otherFooterKeys = new Set(
+                footerBands.filter((_, q) => q !== p).flat().map(r => this.rowKey(r))
+            );
+            const footer = new Set(footerBands[p].filter(r =>
+                PAGE_NUMBER_TEXT.test(this.rowKey(r)) || otherFooterKeys.has(this.rowKey(r))
+            ));
+            return rows.filter(r => !footer.has(r));
+        });
+
+        // 3. Drop repeated header rows on continuation pages
+        const firstHeaderKeys = new Set((stripped[0] || []).slice(0, this.firstDataRowIndex(stripped[0] || [])).map(r => this.rowKey(r)));
+        const rows: GridRow[] = [...(stripped[0] || [])];
+
+        for (let p = 1; p < stripped.length; p++) {
+            const headerEnd = this.firstDataRowIndex(stripped[p]);
+            stripped[p].forEach((row, i) => {
+                const key = this.rowKey(row);
+                if (i < headerEnd && (firstHeaderKeys.has(key) || CONTINUED_TEXT.test(key))) return;
+                rows.push(row);
+            });
+        }
+
+        // 4. Global columns across every page, then align
+        const globalColumns = this.detectColumns(rows);
         this.alignCellsToColumns(rows, globalColumns);
+        this.labelColumns(rows, globalColumns);
+
+        // 5. Parent/child tree from label indentation
+        this.assignHierarchy(rows, globalColumns);
 
         return { rows, headers: globalColumns };
     }
 
+    /**
+     * Turns the x-offset of each row's label into a parent/child tree.
+     * - A row indented further than the row above is its child.
+     * - Rows without numbers are headings. If a heading's items are printed at its own indent
+     *   (flat layout), rows at that indent belong to it until a total or the next heading.
+     * - "Less:" / "Add:" rows sit one level below their own indent.
+     * - A "Total ..." row at the heading's indent closes the heading group.
+     * Headings between the column headers and the first numbers ("Income", "ASSETS") are part of the tree.
+     * Sets `depth` and `parentIndex` on every row (rows must be sorted top-down and aligned).
+     */
+    assignHierarchy(rows: GridRow[], columns: GridColumn[]): void {
+        const bodyStart = this.headerEnd(rows, columns);
+        const labels = rows.map(r => this.labelCell(r));
+        const indentStops = this.clusterValues(
+            labels.filter((c, i): c is GridCell => c !== null && i >= bodyStart).map(c => c.x),
+            this.INDENT_TOLERANCE * this.fontSize
+        );
+        // Nearest indent stop (stops are sorted left to right)
+        const indentOf = (x: number) => indentStops.reduce((best, stop, k) =>
+            Math.abs(stop - x) < Math.abs(indentStops[best] - x) ? k : best, 0);
+
+        // flat: heading whose items are printed at its own indent (decided by its first child)
+        const stack: { index: number, indent: number, isHeading: boolean, flat?: boolean }[] = [];
+
+        rows.forEach((row, i) => {
+            row.depth = 0;
+            row.parentIndex = null;
+
+            // Title block and column headers stay outside the tree
+            const label = labels[i];
+            if (i < bodyStart || !label) return;
+
+            const indent = indentOf(label.x) + (ADJUSTMENT_PREFIX.test(label.text) ? 1 : 0);
+            const isHeading = !row.cells.some(c => NUMERIC_TEXT.test(c.text.trim()));
+            const isTotal = TOTAL_PREFIX.test(label.text);
+
+            while (stack.length > 0) {
+                const top = stack[stack.length - 1];
+                if (top.indent < indent) {
+                    if (top.isHeading && top.flat === undefined) top.flat = false;
+                    break;
+                }
+                if (top.indent === indent && top.isHeading && !isHeading && (top.flat !== false || isTotal)) {
+                    if (!isTotal) top.flat = true;
+                    break;
+                }
+                stack.pop();
+            }
+
+            const parent = stack[stack.length - 1];
+            if (parent) {
+                row.parentIndex = parent.index;
+                row.depth = (rows[parent.index].depth ?? 0) + 1;
+            }
+
+            if (isTotal && parent?.isHeading && parent.indent === indent) {
+                stack.pop();
+                return;
+            }
+
+            stack.push({ index: i, indent, isHeading });
+        });
+    }
+
+    /**
+     * Joins label continuation lines to the row that carries the values:
+     *   "Net gain on fair value changes of financial"      (text only)
+     *   "instruments measured at FVTPL        12.5  10.1"  (values)
+     * A text-only row is a continuation when it sits no further than the usual
+     * row pitch from a value row AND the text reads as a wrapped phrase:
+     * - above a value row: it does not end with ":" and it fills the label column, ends mid-phrase,
+     *   or the next label starts lower-case;
+     * - below a value row: it starts lower-case / "(" or the label above ends mid-phrase.
+     * Rows must be sorted top-down and belong to one page.
+     */
+    private mergeWrappedLabels(rows: GridRow[]): GridRow[] {
+        if (rows.length < 2) return rows;
+
+        const hasValues = (r: GridRow) => r.cells.some(c => NUMERIC_TEXT.test(c.text.trim()));
+        const numericStart = Math.min(...rows.flatMap(r => r.cells.filter(c => NUMERIC_TEXT.test(c.text.trim())).map(c => c.x)));
+
+        // Text-only row with a single cell in the label zone (left of every number)
+        const isLabelOnly = (r: GridRow) =>
+            r.cells.length === 1 && !hasValues(r) && r.cells[0].x + (r.cells[0].width ?? 0) < numericStart;
+
+        const gaps = rows.slice(1).map((r, i) => rows[i].y - r.y).sort((a, b) => a - b);
+        const pitch = gaps[Math.floor(gaps.length / 2)]; // median row pitch
+        // Width of the label column: a wrapped first line nearly fills it
+        const maxLabelWidth = Math.max(0, ...rows.flatMap(r =>
+            r.cells.filter(c => c.x + (c.width ?? 0) < numericStart).map(c => c.width ?? 0)
+        ));
+
+        const startsContinuation = (text: string) => /^[a-z(&]/.test(text.trim());
+        const endsMidPhrase = (text: string) => /(\b(of|and|on|in|to|for|from|at|by|with|the|or)|[,\-–&])$/i.test(text.trim());
+
+        const result: GridRow[] = [];
+
+        for (let i = 0; i < rows.length; i++) {
+            const row = rows[i];
+            const next = rows[i + 1];
+            const prev = result[result.length - 1];
+
+            if (!isLabelOnly(row)) {
+                result.push(row);
+                continue;
+            }
+
+            const text = row.cells[0].text.trim();
+
+            // Continuation line below a value row: append to that row's label
+            if (prev && hasValues(prev) && prev.y - row.y <= pitch * 1.05 && prev.cells[0]
+                && !NUMERIC_TEXT.test(prev.cells[0].text.trim())
+                && (startsContinuation(text) || endsMidPhrase(prev.cells[0].text))) {
+                prev.cells[0] = { ...prev.cells[0], text: `${prev.cells[0].text.trim()} ${text}`, box: unionBoxes([prev.cells[0].box, row.cells[0].box]) ?? undefined };
+                continue;
+            }
+
+            // First line(s) of a label whose values sit on the next line: prepend
+            if (next && hasValues(next) && row.y - next.y <= pitch * 1.05 && next.cells[0]
+                && !NUMERIC_TEXT.test(next.cells[0].text.trim()) && !text.endsWith(":")
+                && ((row.cells[0].width ?? 0) >= maxLabelWidth * 0.85 || startsContinuation(next.cells[0].text) || endsMidPhrase(text))) {
+                next.cells[0] = { ...next.cells[0], x: row.cells[0].x, text: `${text} ${next.cells[0].text.trim()}`, box: unionBoxes([row.cells[0].box, next.cells[0].box]) ?? undefined };
+                continue;
+            }
+
+            result.push(row);
+        }
+
+        return result;
+    }
+
+    // The row label: its leftmost cell, unless that cell is a number
+    private labelCell(row: GridRow): GridCell | null {
+        const first = [...row.cells].sort((a, b) => a.x - b.x)[0];
+        return first && !NUMERIC_TEXT.test(first.text.trim()) ? first : null;
+    }
+
+    // 1-D gap clustering: sorted values closer than `tolerance` merge; returns cluster means
+    private clusterValues(values: number[], tolerance: number): number[] {
+        const sorted = [...values].sort((a, b) => a - b);
+        const clusters: number[][] = [];
+
+        sorted.forEach((v, i) => {
+            if (i === 0 || v - sorted[i - 1] > tolerance) clusters.push([v]);
+            else clusters[clusters.length - 1].push(v);
+        });
+
+        return clusters.map(c => c.reduce((sum, v) => sum + v, 0) / c.length);
+    }
+
+    /**
+     * Merges the stacked header rows above the first data row into one label per column:
+     *   "Quarter ended"               "Year ended"
+     *   "31.12.2024"   "30.09.2024"   "31.03.2024"
+     *   "(Unaudited)"  "(Unaudited)"  "(Audited)"
+     * -> "Quarter ended 31.12.2024 (Unaudited)", "Quarter ended 30.09.2024 (Unaudited)", ...
+     * In each header row, a numeric column takes the nearest cell within half a column pitch,
+     * so one cell printed across several columns labels all of them.
+     * Titles (larger type, or running in from the label column) and unit captions are skipped.
+     * Sets `label` on the columns (rows must be sorted top-down and aligned).
+     */
+    labelColumns(rows: GridRow[], columns: GridColumn[]): void {
+        const parts: string[][] = columns.map(() => []);
+        const numeric = columns.filter(c => c.align === "right");
+        const tolerance = this.COLUMN_TOLERANCE * this.fontSize;
+        const numericStart = Math.min(...numeric.map(c => c.start));
+        const labelStart = Math.min(...columns.filter(c => c.align === "left").map(c => c.start));
+
+        const anchors = numeric.map(c => c.x).sort((a, b) => a - b);
+        const pitches = anchors.slice(1).map((x, i) => x - anchors[i]).sort((a, b) => a - b);
+        const reach = pitches.length > 0
+            ? pitches[Math.floor(pitches.length / 2)] / 2
+            : Math.max(0, ...numeric.map(c => c.end - c.start)) / 2;
+
+        // Extent of each column, widened by the header cells that label it alone
+        const extents = columns.map(c => ({ start: c.start, end: c.end }));
+
+        // Horizontal gap between a cell and a column (0 when they overlap)
+        const gap = (cell: GridCell, index: number) =>
+            Math.max(0, extents[index].start - this.rightEdge(cell), cell.x - extents[index].end);
+        const center = (cell: GridCell) => cell.x + (cell.width ?? 0) / 2;
+        const offCenter = (cell: GridCell, index: number) =>
+            Math.abs(center(cell) - (extents[index].start + extents[index].end) / 2);
+
+        // Bottom-up: the per-column rows (dates, "(Audited)") widen the columns before the spanning rows above them
+        [...this.headerRows(rows, columns)].reverse().forEach(row => {
+            // Skip unit captions ("₹ in Crores") and titles set larger than the body text
+            const cells = row.cells.filter(c =>
+                c.text.trim() !== ""
+                && !(parseUnitCaption(c.text) && !/\d/.test(c.text))
+                && (c.height ?? 0) <= this.fontSize * 1.15
+            );
+
+            // Label column headers ("Particulars", "Note") sit left of the numbers
+            cells.filter(c => this.rightEdge(c) < numericStart - tolerance && c.colIndex !== undefined)
+                .filter(c => columns[c.colIndex!].align === "left")
+                .forEach(c => parts[c.colIndex!].unshift(c.text.trim()));
+
+            // Header cells reaching over the numbers (centred or wide headers overhang them); a title starting at the labels is not one
+            const overNumbers = cells.filter(c => this.rightEdge(c) >= numericStart - tolerance && c.x > labelStart + tolerance);
+            if (overNumbers.length === 0) return;
+
+            const labelled = new Map<GridCell, number[]>();
+            columns.forEach((column, index) => {
+                if (column.align !== "right") return;
+
+                const nearest = overNumbers.reduce((best, c) => {
+                    const d = gap(c, index) - gap(best, index);
+                    return d < 0 || (d === 0 && offCenter(c, index) < offCenter(best, index)) ? c : best;
+                });
+                if (gap(nearest, index) > reach) return;
+
+                parts[index].unshift(nearest.text.trim());
+                labelled.set(nearest, [...(labelled.get(nearest) ?? []), index]);
+            });
+
+            labelled.forEach((indexes, cell) => {
+                if (indexes.length !== 1) return;
+                const extent = extents[indexes[0]];
+                extent.start = Math.min(extent.start, cell.x);
+                extent.end = Math.max(extent.end, this.rightEdge(cell));
+            });
+        });
+
+        columns.forEach((column, index) => {
+            column.label = parts[index].length > 0 ? parts[index].join(" ").replace(/\s+/g, " ") : undefined;
+        });
+    }
+
+    /**
+     * Title, captions and column headers: the rows above the first data row, up to the last one
+     * that sits over the numbers or names a period. Value-less rows below it are section headings.
+     * Rows must be sorted top-down and aligned to `columns`.
+     */
+    headerRows(rows: GridRow[], columns: GridColumn[]): GridRow[] {
+        return rows.slice(0, this.headerEnd(rows, columns));
+    }
+
+    // Index of the first row after the header band (see headerRows)
+    private headerEnd(rows: GridRow[], columns: GridColumn[]): number {
+        const firstData = this.firstDataRowIndex(rows);
+        for (let i = firstData - 1; i >= 0; i--) {
+            if (this.isColumnHeaderRow(rows[i], columns)) return i + 1;
+        }
+        return firstData; // no column headers found: everything above the numbers
+    }
+
+    // A header cell over a numeric column, a period ("Year ended 31.03.2025", "2024") or a label column header
+    private isColumnHeaderRow(row: GridRow, columns: GridColumn[]): boolean {
+        return row.cells.some(c =>
+            (c.colIndex !== undefined && columns[c.colIndex]?.align === "right")
+            || PERIOD_TEXT.test(c.text)
+            || LABEL_HEADER_TEXT.test(c.text.trim())
+        );
+    }
+
+    // A data row has a numeric value (not a header year) AND something else (a label or more values)
+    private isDataRow(row: GridRow): boolean {
+        return row.cells.length >= 2 && row.cells.some(c => NUMERIC_TEXT.test(c.text.trim()) && !YEAR_TEXT.test(c.text.trim()));
+    }
+
+    private firstDataRowIndex(rows: GridRow[]): number {
+        const index = rows.findIndex(r => this.isDataRow(r));
+        return index === -1 ? rows.length : index;
+    }
+
+    // Rows below the last data row of a page (rows must be sorted top-down)
+    private footerBand(rows: GridRow[]): GridRow[] {
+        let last = -1;
+        rows.forEach((r, i) => { if (this.isDataRow(r)) last = i; });
+        return rows.slice(last + 1);
+    }
+
+    // Whitespace-insensitive text of a row, used to spot repeats across pages
+    private rowKey(row: GridRow): string {
+        return row.cells.map(c => c.text.trim()).join(" ").replace(/\s+/g, " ").toLowerCase();
+    }
+
     private groupByRows(items: TextItem[]): GridRow[] {
         const rows: GridRow[] = [];
 
         items.forEach(item => {
             // Find a row that is "close enough" in Y
-            let matchedRow = rows.find(r => Math.abs(r.y - item.y) < this.ROW_TOLERANCE_Y);
+            let matchedRow = rows.find(r => Math.abs(r.y - item.y) < this.ROW_TOLERANCE * this.fontSize);
+            const cell = {
+                x: item.x, text: item.str, width: item.width, height: item.height,
+                box: { page: item.page, x: item.x, y: item.y, width: item.width, height: item.height },
+            };
 
             if (matchedRow) {
-                matchedRow.cells.push({ x: item.x, text: item.str });
+                matchedRow.cells.push(cell);
             } else {
                 rows.push({
                     y: item.y,
-                    cells: [{ x: item.x, text: item.str }]
+                    cells: [cell]
                 });
             }
         });
@@ -65,38 +471,80 @@ export class LayoutEngine {
         return rows;
     }
 
-    private detectColumns(rows: GridRow[]): number[] {
-        // Collect all X coordinates
-        const allX: number[] = [];
-        rows.forEach(r => r.cells.forEach(c => allX.push(c.x)));
-        allX.sort((a, b) => a - b);
-
-        const columns: number[] = [];
-
-        if (allX.length > 0) {
-            let currentClusterStart = allX[0];
-            let currentClusterSum = allX[0];
-            let currentClusterCount = 1;
-
-            for (let i = 1; i < allX.length; i++) {
-                if (allX[i] - allX[i - 1] > this.COLUMN_TOLERANCE_X) {
-                    // End of cluster
-                    columns.push(currentClusterSum / currentClusterCount);
-                    // Start new
-                    currentClusterStart = allX[i];
-                    currentClusterSum = allX[i];
-                    currentClusterCount = 1;
-                } else {
-                    currentClusterSum += allX[i];
-                    currentClusterCount++;
-                }
-            }
-            columns.push(currentClusterSum / currentClusterCount); // Last cluster
-        }
-        return columns;
+    // Median text height; half the items being headings or footnotes does not move it
+    private medianFontSize(items: TextItem[]): number {
+        const heights = items.map(i => i.height).filter(h => h > 0).sort((a, b) => a - b);
+        return heights.length > 0 ? heights[Math.floor(heights.length / 2)] : this.DEFAULT_FONT_SIZE;
     }
 
-    private alignCellsToColumns(rows: GridRow[], columns: number[]) {
+    private isNumeric(cell: GridCell): boolean {
+        return NUMERIC_TEXT.test(cell.text.trim());
+    }
+
+    private rightEdge(cell: GridCell): number {
+        return cell.x + (cell.width ?? 0);
+    }
+
+    /**
+     * Numbers are right-aligned, so "1,234" and "123,456,789" share a right edge, not a left one.
+     * - Numeric columns: clusters of the right edges of numeric cells.
+     * - Text columns (labels): clusters of the left edges of text that does not sit inside a numeric column.
+     * Only body rows count: titles, centred years and spanning headers would invent columns.
+     * alignCellsToColumns places the header cells afterwards.
+     */
+    private detectColumns(rows: GridRow[]): GridColumn[] {
+        const tolerance = this.COLUMN_TOLERANCE * this.fontSize;
+        const bodyStart = this.firstDataRowIndex(rows);
+        const bodyCells = (bodyStart < rows.length ? rows.slice(bodyStart) : rows).flatMap(r => r.cells);
+
+        const numericCells = bodyCells.filter(c => this.isNumeric(c));
+        const numeric = this.clusterValues(numericCells.map(c => this.rightEdge(c)), tolerance).map(x => {
+            const members = numericCells.filter(c => Math.abs(this.rightEdge(c) - x) <= tolerance);
+            return {
+                x,
+                align: "right" as const,
+                start: Math.min(...members.map(c => c.x)),
+                end: Math.max(...members.map(c => this.rightEdge(c))),
+                fit: 1,
+            };
+        });
+
+        // "Nil", "-" and other text inside a numeric column belong to it
+        const insideNumeric = (c: GridCell) => numeric.some(col => this.columnDistance(c, col) <= tolerance);
+        const textCells = bodyCells.filter(c => !this.isNumeric(c) && !insideNumeric(c));
+        const text = this.clusterValues(textCells.map(c => c.x), tolerance).map(x => {
+            const members = textCells.filter(c => Math.abs(c.x - x) <= tolerance);
+            return {
+                x,
+                align: "left" as const,
+                start: Math.min(...members.map(c => c.x)),
+                end: Math.max(...members.map(c => this.rightEdge(c))),
+                fit: 1,
+            };
+        });
+
+        return [...text, ...numeric].sort((a, b) => a.start - b.start);
+    }
+
+    // How far a cell is from a column, measured on the column's aligned edge
+    private columnDistance(cell: GridCell, column: GridColumn): number {
+        if (column.align === "left") return Math.abs(cell.x - column.x);
+        if (this.isNumeric(cell)) return Math.abs(this.rightEdge(cell) - column.x);
+
+        // Text in a numeric column ("Nil", "31.03.2025" headers) may be centred: its centre must fall inside it
+        const center = cell.x + (cell.width ?? 0) / 2;
+        if (center >= column.start && center <= column.x) return 0;
+        return Math.min(Math.abs(center - column.start), Math.abs(center - column.x), Math.abs(this.rightEdge(cell) - column.x));
+    }
+
+    /**
+     * Assigns each cell to its closest column and scores every column's fit:
+     * 1 - (mean distance of its cells from the aligned edge / column tolerance), floored at 0.
+     */
+    private alignCellsToColumns(rows: GridRow[], columns: GridColumn[]) {
+        const matchTolerance = this.MATCH_TOLERANCE * this.fontSize;
+        const distances: number[][] = columns.map(() => []);
+
         rows.forEach(row => {
             // Sort cells by x first
             row.cells.sort((a, b) => a.x - b.x);
@@ -106,9 +554,9 @@ export class LayoutEngine {
                 let bestColIndex = -1;
                 let minDiff = Infinity;
 
-                columns.forEach((colX, index) => {
-                    const diff = Math.abs(cell.x - colX);
-                    if (diff < minDiff && diff < this.MATCH_TOLERANCE) {
+                columns.forEach((column, index) => {
+                    const diff = this.columnDistance(cell, column);
+                    if (diff < minDiff && diff < matchTolerance) {
                         minDiff = diff;
                         bestColIndex = index;
                     }
@@ -116,9 +564,20 @@ export class LayoutEngine {
 
                 if (bestColIndex !== -1) {
                     cell.colIndex = bestColIndex;
+                    // Only cells that define the edge count towards fit (not header text over numbers)
+                    if (columns[bestColIndex].align === "left" || this.isNumeric(cell)) {
+                        distances[bestColIndex].push(minDiff);
+                    }
                 }
             });
         });
+
+        const tolerance = this.COLUMN_TOLERANCE * this.fontSize;
+        columns.forEach((column, index) => {
+            const d = distances[index];
+            const mean = d.length > 0 ? d.reduce((sum, v) => sum + v, 0) / d.length : tolerance;
+            column.fit = Math.round(Math.max(0, 1 - mean / tolerance) * 100) / 100;
+        });
     }
 }
 
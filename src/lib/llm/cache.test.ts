@@ -0,0 +1,96 @@
+import { afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { TableDetection } from "../schema";
+import { CachingProvider, cacheKey, FileCacheStore, MemoryCacheStore } from "./cache";
+import { LLMProvider } from "./provider";
+
+const PAGE = { data: Buffer.from("page 1").toString("base64"), mimeType: "image/jpeg" };
+const DETECTION: TableDetection = { hasTable: true, tableType: "balance_sheet", basis: null, confidence: "high" };
+
+// A model that always finds a balance sheet, counting the calls that reach it
+function fakeModel(model = "model-a") {
+    const provider = {
+        name: "fake",
+        model,
+        calls: 0,
+        async detectTable() {
+            provider.calls++;
+            return DETECTION;
+        },
+        classifyTable: () => Promise.reject(new Error("not used")),
+        extractRecords: () => Promise.reject(new Error("not used")),
+    } satisfies LLMProvider & { calls: number };
+    return provider;
+}
+
+// Hits and misses are logged; keep the test output to the results
+before(() => {
+    mock.method(console, "log", () => { });
+});
+
+const detect = (llm: CachingProvider, promptVersion = "v1") => llm.detectTable("Is there a table?", PAGE, { promptVersion });
+
+describe("CachingProvider", () => {
+    it("answers a repeated call from the store", async () => {
+        const store = new MemoryCacheStore();
+        const model = fakeModel();
+
+        await detect(new CachingProvider(model, store));
+        const second = new CachingProvider(model, store);
+        assert.deepEqual(await detect(second), DETECTION);
+
+        assert.equal(model.calls, 1);
+        assert.deepEqual(second.stageLog.map(s => s.cache), ["hit"]);
+    });
+
+    it("misses when the prompt version or the model changes", async () => {
+        const store = new MemoryCacheStore();
+        const model = fakeModel();
+        await detect(new CachingProvider(model, store));
+
+        await detect(new CachingProvider(model, store), "v2");
+        assert.equal(model.calls, 2);
+
+        const other = fakeModel("model-b");
+        await detect(new CachingProvider(other, store));
+        assert.equal(other.calls, 1);
+    });
+
+    it("logs every call as off without a store", async () => {
+        const model = fakeModel();
+        const llm = new CachingProvider(model, null);
+        await detect(llm);
+        await detect(llm);
+
+        assert.equal(model.calls, 2);
+        assert.deepEqual(llm.stageLog.map(s => s.cache), ["off", "off"]);
+    });
+});
+
+describe("FileCacheStore", () => {
+    let dir: string;
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(os.tmpdir(), "llm-cache-"));
+    });
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("reads a corrupt entry as a miss and overwrites it", async () => {
+        const model = fakeModel();
+        const key = cacheKey({ stage: "detection", provider: "fake", model: "model-a", prompt: "Is there a table?", images: [PAGE], promptVersion: "v1" });
+        const file = path.join(dir, key.slice(0, 2), `${key}.json`);
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(file, '{"hasTable": tr'); // cut off mid-write
+
+        const llm = new CachingProvider(model, new FileCacheStore(dir));
+        assert.deepEqual(await detect(llm), DETECTION);
+
+        assert.equal(model.calls, 1);
+        assert.deepEqual(llm.stageLog.map(s => s.cache), ["miss"]);
+        assert.deepEqual(JSON.parse(await readFile(file, "utf8")), DETECTION);
+    });
+});
@@ -0,0 +1,197 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import {
+    RawExtraction,
+    RawExtractionSchema,
+    StageLog,
+    TableClassification,
+    TableClassificationSchema,
+    TableDetection,
+    TableDetectionSchema
+} from "../schema";
+import { CallOptions, ImagePart, LLMProvider, LLMStage } from "./provider";
+
+/**
+ * Content-addressed cache for LLM stage results.
+ * The key hashes what the answer depends on: stage, model, prompt version, page images
+ * and the layout grid text. Re-running the same PDF answers from the cache at no cost.
+ * Only answers that passed schema validation are stored.
+ */
+
+export interface CacheStore {
+    readonly kind: string; // "memory", "fs"
+    get(key: string): Promise<string | undefined>;
+    set(key: string, value: string): Promise<void>;
+}
+
+// In-process store; the oldest entries go first once `maxEntries` is reached
+export class MemoryCacheStore implements CacheStore {
+    readonly kind = "memory";
+    private entries = new Map<string, string>();
+
+    constructor(private maxEntries = 500) { }
+
+    async get(key: string): Promise<string | undefined> {
+        return this.entries.get(key);
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        if (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+}
+
+// One JSON file per key under `dir`, fanned out by the first two hex digits
+export class FileCacheStore implements CacheStore {
+    readonly kind = "fs";
+
+    constructor(private dir: string) { }
+
+    private fileFor(key: string): string {
+        return path.join(this.dir, key.slice(0, 2), `${key}.json`);
+    }
+
+    async get(key: string): Promise<string | undefined> {
+        try {
+            return await readFile(this.fileFor(key), "utf8");
+        } catch {
+            return undefined; // missing or unreadable: a miss
+        }
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        const file = this.fileFor(key);
+        await mkdir(path.dirname(file), { recursive: true });
+        // Write then rename, so a concurrent reader never sees half a file
+        const temp = `${file}.${process.pid}.tmp`;
+        await writeFile(temp, value);
+        await rename(temp, file);
+    }
+}
+
+export interface CacheKeyParts {
+    stage: LLMStage;
+    provider: string;
+    model: string;
+    prompt: string;
+    images: ImagePart[];
+    promptVersion?: string;
+    gridText?: string;
+}
+
+/**
+ * sha256 over stage, provider, model, page images and either the prompt version + grid text,
+ * or (for callers without a prompt version) the full prompt.
+ */
+export function cacheKey(parts: CacheKeyParts): string {
+    const hash = createHash("sha256");
+    const add = (value: string) => hash.update(value).update("\0");
+
+    add(parts.stage);
+    add(parts.provider);
+    add(parts.model);
+    if (parts.promptVersion) {
+        add(`v:${parts.promptVersion}`);
+        add(parts.gridText ?? "");
+    } else {
+        add(parts.prompt);
+    }
+    parts.images.forEach(image => add(createHash("sha256").update(image.data).digest("hex")));
+
+    return hash.digest("hex");
+}
+
+// A corrupt entry (e.g. a truncated file) reads as a miss, and the fresh answer overwrites it
+function parseEntry(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Wraps a provider with a cache store and logs every stage call (hit, miss, or cache off).
+ * Create one per pipeline run so `stageLog` covers that run only.
+ */
+export class CachingProvider implements LLMProvider {
+    readonly name: string;
+    readonly model: string;
+    readonly stageLog: StageLog[] = [];
+
+    constructor(private inner: LLMProvider, private store: CacheStore | null) {
+        this.name = inner.name;
+        this.model = inner.model;
+    }
+
+    detectTable(prompt: string, page: ImagePart, options: CallOptions = {}): Promise<TableDetection> {
+        return this.cached("detection", prompt, [page], options, TableDetectionSchema,
+            () => this.inner.detectTable(prompt, page, options));
+    }
+
+    classifyTable(prompt: string, images: ImagePart[], options: CallOptions = {}): Promise<TableClassification> {
+        return this.cached("classification", prompt, images, options, TableClassificationSchema,
+            () => this.inner.classifyTable(prompt, images, options));
+    }
+
+    extractRecords(prompt: string, images: ImagePart[], options: CallOptions = {}): Promise<RawExtraction> {
+        return this.cached("extraction", prompt, images, options, RawExtractionSchema,
+            () => this.inner.extractRecords(prompt, images, options));
+    }
+
+    private async cached<T>(
+        stage: LLMStage,
+        prompt: string,
+        images: ImagePart[],
+        options: CallOptions,
+        schema: z.ZodType<T>,
+        call: () => Promise<T>
+    ): Promise<T> {
+        const tag = options.tag ?? stage.toUpperCase();
+        const started = Date.now();
+        const key = cacheKey({ stage, provider: this.name, model: this.model, prompt, images, ...options });
+
+        if (this.store) {
+            const hit = await this.store.get(key);
+            const parsed = hit !== undefined ? schema.safeParse(parseEntry(hit)) : null;
+            if (parsed?.success) {
+                console.log(`[${tag}] Cache hit (${this.store.kind} ${key.slice(0, 12)})`);
+                this.stageLog.push({ stage, tag, cache: "hit", ms: Date.now() - started });
+                return parsed.data;
+            }
+        }
+
+        const result = await call();
+
+        if (this.store) {
+            await this.store.set(key, JSON.stringify(result));
+            console.log(`[${tag}] Cache miss (${this.store.kind} ${key.slice(0, 12)}), stored`);
+        }
+        this.stageLog.push({ stage, tag, cache: this.store ? "miss" : "off", ms: Date.now() - started });
+
+        return result;
+    }
+}
+
+/**
+ * Store named by LLM_CACHE: "memory" (default), "fs" (under LLM_CACHE_DIR, default .cache/llm) or "off".
+ */
+export function createCacheStore(env: NodeJS.ProcessEnv = process.env): CacheStore | null {
+    const kind = (env.LLM_CACHE || "memory").toLowerCase();
+
+    switch (kind) {
+        case "memory":
+            return new MemoryCacheStore();
+        case "fs":
+            return new FileCacheStore(env.LLM_CACHE_DIR || path.join(process.cwd(), ".cache", "llm"));
+        case "off":
+            return null;
+        default:
+            throw new Error(`Unknown LLM_CACHE "${kind}" (expected memory, fs or off)`);
+    }
+}
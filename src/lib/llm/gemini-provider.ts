@@ -0,0 +1,34 @@
+import { GoogleGenerativeAI, GenerativeModel, InlineDataPart } from "@google/generative-ai";
+import { BaseProvider, LLMRequest } from "./provider";
+
+export interface GeminiConfig {
+    apiKey: string;
+    model: string; // e.g. "gemini-1.5-flash"
+}
+
+/**
+ * Google Gemini (vision) through @google/generative-ai.
+ */
+export class GeminiProvider extends BaseProvider {
+    readonly name = "gemini";
+    readonly model: string;
+    private client: GenerativeModel;
+
+    constructor(config: GeminiConfig) {
+        super();
+        this.model = config.model;
+        this.client = new GoogleGenerativeAI(config.apiKey).getGenerativeModel({
+            model: config.model,
+            generationConfig: { temperature: 0 } // Deterministic output
+        });
+    }
+
+    async complete({ prompt, images }: LLMRequest): Promise<string> {
+        const imageParts: InlineDataPart[] = images.map(image => ({
+            inlineData: { data: image.data, mimeType: image.mimeType }
+        }));
+
+        const result = await this.client.generateContent([prompt, ...imageParts]);
+        return result.response.text();
+    }
+}
@@ -0,0 +1,50 @@
+import { BaseProvider, LLMProvider } from "./provider";
+import { GeminiProvider } from "./gemini-provider";
+import { OpenAICompatibleProvider } from "./openai-provider";
+import { MockProvider, RecordingProvider } from "./mock-provider";
+
+export type { CallOptions, ImagePart, LLMProvider, LLMRequest, LLMStage } from "./provider";
+export { BaseProvider } from "./provider";
+export { GeminiProvider } from "./gemini-provider";
+export { OpenAICompatibleProvider } from "./openai-provider";
+export { MockProvider, RecordingProvider, requestKey } from "./mock-provider";
+export type { Fixture, FixtureFile } from "./mock-provider";
+export { CachingProvider, FileCacheStore, MemoryCacheStore, cacheKey, createCacheStore } from "./cache";
+export type { CacheKeyParts, CacheStore } from "./cache";
+
+/**
+ * Builds the provider named by LLM_PROVIDER (default "gemini"):
+ * - gemini: GEMINI_API_KEY, GEMINI_MODEL
+ * - openai: OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL (any OpenAI-compatible server)
+ * - mock:   LLM_FIXTURES (fixture file to replay)
+ * With LLM_RECORD_FIXTURES set, every response is also written to that file.
+ */
+export function createProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+    const kind = (env.LLM_PROVIDER || "gemini").toLowerCase();
+    let provider: BaseProvider;
+
+    switch (kind) {
+        case "gemini": {
+            if (!env.GEMINI_API_KEY) throw new Error("GEMINI_API_KEY is not set");
+            provider = new GeminiProvider({ apiKey: env.GEMINI_API_KEY, model: env.GEMINI_MODEL || "gemini-1.5-flash" });
+            break;
+        }
+        case "openai": {
+            if (!env.OPENAI_MODEL) throw new Error("OPENAI_MODEL is not set");
+            provider = new OpenAICompatibleProvider({
+                baseUrl: env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+                apiKey: env.OPENAI_API_KEY,
+                model: env.OPENAI_MODEL
+            });
+            break;
+        }
+        case "mock": {
+            if (!env.LLM_FIXTURES) throw new Error("LLM_FIXTURES is not set");
+            return MockProvider.fromFile(env.LLM_FIXTURES);
+        }
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${kind}" (expected gemini, openai or mock)`);
+    }
+
+    return env.LLM_RECORD_FIXTURES ? new RecordingProvider(provider, env.LLM_RECORD_FIXTURES) : provider;
+}
@@ -0,0 +1,92 @@
+import { createHash } from "crypto";
+import { readFileSync, writeFileSync } from "fs";
+import { BaseProvider, LLMRequest, LLMStage } from "./provider";
+
+/**
+ * Fixture replay: runs the whole pipeline offline (tests, air-gapped installs).
+ *
+ * Fixture file:
+ * { "model": "gemini-1.5-flash", "responses": [{ "stage": "detection", "key": "<sha256>", "response": { ... } }] }
+ *
+ * A request replays the response recorded under its key (stage + prompt + images).
+ * Failing that, the next unused response of the same stage is replayed, so fixtures
+ * survive small prompt edits. Record fixtures with RecordingProvider.
+ */
+
+export interface Fixture {
+    stage: LLMStage;
+    key: string;
+    tag?: string;
+    response: unknown; // parsed JSON, or the raw text when the model did not return JSON
+}
+
+export interface FixtureFile {
+    model?: string;
+    responses: Fixture[];
+}
+
+// Stable key of a request: the same page and prompt always hash the same
+export function requestKey(request: LLMRequest): string {
+    const hash = createHash("sha256").update(request.stage).update("\0").update(request.prompt);
+    request.images.forEach(image => hash.update("\0").update(image.data));
+    return hash.digest("hex");
+}
+
+export class MockProvider extends BaseProvider {
+    readonly name = "mock";
+    readonly model: string;
+    protected MAX_RETRIES = 1; // a replay gives the same answer every time
+    private used = new Set<Fixture>();
+
+    constructor(private fixtures: FixtureFile) {
+        super();
+        this.model = fixtures.model ?? "fixtures";
+    }
+
+    static fromFile(path: string): MockProvider {
+        return new MockProvider(JSON.parse(readFileSync(path, "utf8")) as FixtureFile);
+    }
+
+    async complete(request: LLMRequest): Promise<string> {
+        const key = requestKey(request);
+        const fixture = this.fixtures.responses.find(f => f.key === key)
+            ?? this.fixtures.responses.find(f => f.stage === request.stage && !this.used.has(f));
+
+        if (!fixture) throw new Error(`No fixture left for ${request.tag ?? request.stage}`);
+
+        this.used.add(fixture);
+        return typeof fixture.response === "string" ? fixture.response : JSON.stringify(fixture.response);
+    }
+}
+
+/**
+ * Wraps a real provider and writes every response to a fixture file for MockProvider.
+ */
+export class RecordingProvider extends BaseProvider {
+    readonly name: string;
+    readonly model: string;
+    private recorded: Fixture[] = [];
+
+    constructor(private inner: BaseProvider, private path: string) {
+        super();
+        this.name = inner.name;
+        this.model = inner.model;
+    }
+
+    async complete(request: LLMRequest): Promise<string> {
+        const text = await this.inner.complete(request);
+
+        let response: unknown = text;
+        try {
+            response = JSON.parse(text.replace(/```json/g, "").replace(/```/g, "").trim());
+        } catch {
+            // keep the raw text; the pipeline will reject it the same way on replay
+        }
+
+        this.recorded.push({ stage: request.stage, key: requestKey(request), tag: request.tag, response });
+        const file: FixtureFile = { model: this.model, responses: this.recorded };
+        writeFileSync(this.path, JSON.stringify(file, null, 2));
+
+        return text;
+    }
+}
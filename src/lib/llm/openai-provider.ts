@@ -0,0 +1,64 @@
+import { BaseProvider, LLMRequest } from "./provider";
+
+export interface OpenAICompatibleConfig {
+    baseUrl: string; // e.g. "https://api.openai.com/v1", or a self-hosted vLLM / Ollama endpoint
+    apiKey?: string; // optional for local servers
+    model: string;
+}
+
+// The part of a /chat/completions response we read
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string | null } }[];
+}
+
+/**
+ * Any server speaking the OpenAI Chat Completions API, pointed at a configurable base URL.
+ * Page images go in as data: URLs, so the model must accept image input.
+ */
+export class OpenAICompatibleProvider extends BaseProvider {
+    readonly name = "openai";
+    readonly model: string;
+    private baseUrl: string;
+    private apiKey?: string;
+
+    constructor(config: OpenAICompatibleConfig) {
+        super();
+        this.model = config.model;
+        this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+        this.apiKey = config.apiKey;
+    }
+
+    async complete({ prompt, images }: LLMRequest): Promise<string> {
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+            },
+            body: JSON.stringify({
+                model: this.model,
+                temperature: 0,
+                response_format: { type: "json_object" },
+                messages: [{
+                    role: "user",
+                    content: [
+                        { type: "text", text: prompt },
+                        ...images.map(image => ({
+                            type: "image_url",
+                            image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+                        }))
+                    ]
+                }]
+            })
+        });
+
+        if (!response.ok) {
+            throw new Error(`${this.baseUrl} returned ${response.status}: ${(await response.text()).slice(0, 200)}`);
+        }
+
+        const body = await response.json() as ChatCompletionResponse;
+        const text = body.choices?.[0]?.message?.content;
+        if (typeof text !== "string") throw new Error(`${this.baseUrl} returned no message content`);
+        return text;
+    }
+}
@@ -0,0 +1,99 @@
+import { z } from "zod";
+import {
+    RawExtraction,
+    RawExtractionSchema,
+    TableClassification,
+    TableClassificationSchema,
+    TableDetection,
+    TableDetectionSchema
+} from "../schema";
+
+/**
+ * LLM Provider: the only place the pipeline talks to a model.
+ * Providers move a prompt and page images to a model and bring text back.
+ * Prompts stay with the pipeline stages; JSON cleanup, validation and retries live here.
+ */
+
+// A page image, base64 encoded (no "data:" prefix)
+export interface ImagePart {
+    data: string;
+    mimeType: string;
+}
+
+export type LLMStage = "detection" | "classification" | "extraction";
+
+export interface CallOptions {
+    tag?: string;           // log label, e.g. "DETECTION p3"
+    promptVersion?: string; // identifies the prompt template (cache key; see cache.ts)
+    gridText?: string;      // layout grid the prompt was built from (cache key)
+}
+
+export interface LLMRequest extends CallOptions {
+    stage: LLMStage;
+    prompt: string;
+    images: ImagePart[];
+}
+
+export interface LLMProvider {
+    readonly name: string;  // "gemini", "openai", "mock"
+    readonly model: string; // model id, for logs and result metadata
+
+    // Does this page hold a statement table?
+    detectTable(prompt: string, page: ImagePart, options?: CallOptions): Promise<TableDetection>;
+    // Which grid columns are periods, which rows belong to which category?
+    classifyTable(prompt: string, images: ImagePart[], options?: CallOptions): Promise<TableClassification>;
+    // Free-form: every record straight from the page images, no layout grid
+    extractRecords(prompt: string, images: ImagePart[], options?: CallOptions): Promise<RawExtraction>;
+}
+
+/**
+ * Implementations only provide `complete` (one raw text response per request).
+ */
+export abstract class BaseProvider implements LLMProvider {
+    abstract readonly name: string;
+    abstract readonly model: string;
+
+    protected MAX_RETRIES = 2;
+
+    abstract complete(request: LLMRequest): Promise<string>;
+
+    detectTable(prompt: string, page: ImagePart, options: CallOptions = {}): Promise<TableDetection> {
+        return this.generateJSON({ stage: "detection", prompt, images: [page], tag: "DETECTION", ...options }, TableDetectionSchema);
+    }
+
+    classifyTable(prompt: string, images: ImagePart[], options: CallOptions = {}): Promise<TableClassification> {
+        return this.generateJSON({ stage: "classification", prompt, images, tag: "CLASSIFICATION", ...options }, TableClassificationSchema);
+    }
+
+    extractRecords(prompt: string, images: ImagePart[], options: CallOptions = {}): Promise<RawExtraction> {
+        return this.generateJSON({ stage: "extraction", prompt, images, tag: "EXTRACTION", ...options }, RawExtractionSchema);
+    }
+
+    // Call with retry: a malformed or off-schema answer is retried like a network error
+    protected async generateJSON<T>(request: LLMRequest, schema: z.ZodType<T>): Promise<T> {
+        const stageName = request.tag ?? request.stage;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                console.log(`[${stageName}] Attempt ${attempt} (${this.name}/${this.model})...`);
+                const text = await this.complete(request);
+
+                // Clean markdown
+                const json = JSON.parse(text.replace(/```json/g, "").replace(/```/g, "").trim());
+                const parsed = schema.safeParse(json);
+
+                if (!parsed.success) {
+                    console.warn(`[${stageName}] Schema Validation Failed:`, parsed.error);
+                    throw new Error(`Invalid JSON structure for ${stageName}`);
+                }
+
+                return parsed.data;
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.warn(`[${stageName}] Error (Attempt ${attempt}):`, message);
+                if (attempt >= this.MAX_RETRIES) throw error;
+                await new Promise(r => setTimeout(r, 1000 * attempt));
+            }
+        }
+    }
+}
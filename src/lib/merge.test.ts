@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CleanExtraction, CleanRecord, Scale } from "./schema";
+import { periodFromHeader } from "./normalization";
+import { mergeExtractions } from "./merge";
+import { makeExtraction, makeRecord } from "./test-helpers";
+
+interface Row {
+    label: string;
+    values: Record<string, number>; // per fiscal year header, e.g. "FY 2024-25"
+    account?: string;
+}
+
+// One annual report: every row printed for each of its periods
+function report(rows: Row[], scale: Scale = "crores"): CleanExtraction {
+    return makeExtraction(rows.flatMap((row, rowIndex) => Object.entries(row.values).map(([header, value]) => {
+        const period = periodFromHeader(header)!;
+        return makeRecord({
+            basis: "standalone",
+            lineItem: row.label,
+            year: period.endDate!.slice(0, 4),
+            period,
+            value,
+            unit: null,
+            scale,
+            sourceSnippet: `${row.label} ${value}`,
+            rowIndex,
+            account: row.account ? { id: row.account, score: 1, source: "label" } : null,
+        });
+    })));
+}
+
+const figure = (records: CleanRecord[], label: string, fiscalYear: string) =>
+    records.filter(r => r.lineItem === label && r.period.fiscalYear === fiscalYear).map(r => r.value);
+
+describe("mergeExtractions", () => {
+    const fy24 = report([
+        { label: "Revenue from operations", values: { "FY 2023-24": 900, "FY 2022-23": 800 }, account: "is.revenue_from_operations" },
+        { label: "Other income", values: { "FY 2023-24": 40, "FY 2022-23": 35 } },
+    ]);
+    const fy25 = report([
+        { label: "Revenue from operations", values: { "FY 2024-25": 1000, "FY 2023-24": 910 }, account: "is.revenue_from_operations" },
+        { label: "Other income", values: { "FY 2024-25": 50, "FY 2023-24": 40 } },
+    ]);
+
+    it("builds one series with the latest report winning", () => {
+        const merged = mergeExtractions([{ name: "FY25.pdf", extraction: fy25 }, { name: "FY24.pdf", extraction: fy24 }]);
+
+        assert.deepEqual(merged.periodsDetected.map(p => p.label), ["FY2024-25", "FY2023-24", "FY2022-23"]);
+        assert.deepEqual(figure(merged.records, "Revenue from operations", "FY2023-24"), [910]);
+        assert.equal(merged.records.find(r => r.period.label === "FY2022-23" && r.lineItem === "Other income")?.document, "FY24.pdf");
+        assert.deepEqual(merged.documents.map(d => d.name), ["FY24.pdf", "FY25.pdf"]);
+    });
+
+    it("lists figures a later report changed as restatements", () => {
+        const merged = mergeExtractions([{ name: "FY24.pdf", extraction: fy24 }, { name: "FY25.pdf", extraction: fy25 }]);
+
+        assert.equal(merged.restatements.length, 1);
+        const [restatement] = merged.restatements;
+        assert.equal(restatement.lineItem, "Revenue from operations");
+        assert.equal(restatement.period.label, "FY2023-24");
+        assert.deepEqual([restatement.original.document, restatement.original.value], ["FY24.pdf", 900]);
+        assert.deepEqual([restatement.restated.document, restatement.restated.value], ["FY25.pdf", 910]);
+    });
+
+    it("matches rows by standard account, whatever their label", () => {
+        const renamed = report([
+            { label: "Net sales", values: { "FY 2023-24": 900, "FY 2022-23": 800 }, account: "is.revenue_from_operations" },
+        ]);
+        const merged = mergeExtractions([{ name: "FY24.pdf", extraction: renamed }, { name: "FY25.pdf", extraction: fy25 }]);
+
+        assert.deepEqual(figure(merged.records, "Revenue from operations", "FY2022-23"), [800]);
+        assert.equal(merged.records.some(r => r.lineItem === "Net sales"), false);
+    });
+
+    it("does not take a change of scale for a restatement", () => {
+        const inLakhs = report([{ label: "Other income", values: { "FY 2023-24": 4000, "FY 2022-23": 3500 } }], "lakhs");
+        const merged = mergeExtractions([{ name: "FY24.pdf", extraction: inLakhs }, { name: "FY25.pdf", extraction: fy25 }]);
+
+        assert.deepEqual(merged.restatements, []);
+        assert.deepEqual(figure(merged.records, "Other income", "FY2022-23"), [35]);
+    });
+
+    it("keeps repeated labels apart", () => {
+        const others = (a: number, b: number) => report([
+            { label: "Others", values: { "FY 2023-24": a } },
+            { label: "Others", values: { "FY 2023-24": b } },
+        ]);
+        const merged = mergeExtractions([{ name: "A.pdf", extraction: others(10, 20) }, { name: "B.pdf", extraction: others(10, 20) }]);
+
+        assert.deepEqual(figure(merged.records, "Others", "FY2023-24"), [10, 20]);
+        assert.deepEqual(merged.restatements, []);
+    });
+});
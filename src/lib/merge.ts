@@ -0,0 +1,153 @@
+import { CleanExtraction, CleanRecord, FigureSource, MergedExtraction, Restatement, Scale } from "./schema";
+import { comparePeriods, periodKey } from "./normalization";
+import { convertToScale, SCALE_FACTORS } from "./units";
+import { applyCorrections } from "./review";
+import { validateExtraction } from "./validation";
+import { canonicalLineItem } from "./taxonomy";
+
+/**
+ * Merge Stage: several reports of one company -> one multi-year series.
+ * Deterministic. No AI.
+ *
+ * Annual reports overlap (the FY25 report repeats FY24 as its prior year), so one line item and
+ * period can be printed several times. The latest report wins. When an earlier report printed a
+ * different figure, the change is listed as a restatement with both values and their sources.
+ */
+
+export interface MergeInput {
+    name: string; // shown as the source of every record
+    extraction: CleanExtraction;
+}
+
+// The report's latest period; reports are ordered by it
+const latestPeriod = (extraction: CleanExtraction) => [...extraction.periodsDetected].sort(comparePeriods)[0];
+
+// Amounts compare in plain units when both captions are known; otherwise as printed
+function scaled(record: CleanRecord, other: CleanRecord) {
+    const bothScaled = record.measure === "amount" && record.scale && other.scale;
+    return bothScaled ? SCALE_FACTORS[record.scale!] : 1;
+}
+
+// Value of the last printed digit: 1,234.5 (crores) -> 0.1 crore
+const resolution = (value: number, factor: number) => 10 ** -((String(value).split(".")[1] ?? "").length) * factor;
+
+/**
+ * Two reports disagree when the figures differ by more than rounding:
+ * half the last printed digit of the coarser figure.
+ */
+function isRestated(before: CleanRecord, after: CleanRecord): boolean {
+    if (before.value === null || after.value === null) return false;
+
+    const beforeFactor = scaled(before, after);
+    const afterFactor = scaled(after, before);
+    const tolerance = Math.max(resolution(before.value, beforeFactor), resolution(after.value, afterFactor)) / 2;
+    return Math.abs(before.value * beforeFactor - after.value * afterFactor) > tolerance + 1e-9 * Math.abs(after.value * afterFactor);
+}
+
+const figureSource = (record: CleanRecord): FigureSource => ({
+    document: record.document ?? "",
+    value: record.value,
+    unit: record.unit,
+    page: record.page,
+    valueBox: record.valueBox,
+    sourceSnippet: record.sourceSnippet,
+});
+
+// Scale most of the latest report's amounts are printed in; the merged series uses it throughout
+function dominantScale(records: CleanRecord[]): Scale | null {
+    const counts = new Map<Scale, number>();
+    records.forEach(r => {
+        if (r.measure === "amount" && r.scale) counts.set(r.scale, (counts.get(r.scale) ?? 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+export function mergeExtractions(inputs: MergeInput[]): MergedExtraction {
+    // Corrections first: an analyst's fix counts as what the report said
+    const documents = inputs
+        .map(input => ({ name: input.name, extraction: applyCorrections(input.extraction) }))
+        .sort((a, b) => {
+            const latestA = latestPeriod(a.extraction);
+            const latestB = latestPeriod(b.extraction);
+            if (!latestA || !latestB) return latestA ? 1 : latestB ? -1 : 0;
+            return comparePeriods(latestB, latestA); // oldest first
+        });
+
+    // Figures per line item and period, newest report first. Rows are keyed in the newest report's
+    // order so the series reads like it; the n-th "Others" under a heading matches the n-th elsewhere.
+    const groups = new Map<string, CleanRecord[]>();
+    // Label, heading and category of each row, as the newest report prints them
+    const rows = new Map<string, Pick<CleanRecord, "lineItem" | "subCategory" | "category" | "level">>();
+    [...documents].reverse().forEach(({ name, extraction }) => {
+        const seen = new Map<string, number>();
+        extraction.records.forEach(record => {
+            // The standard account when mapped ("Net sales" is "Revenue from operations"), else the label
+            const line = [
+                record.statementType,
+                record.basis,
+                ...(record.account
+                    ? [record.account.id]
+                    : [canonicalLineItem(record.subCategory ?? ""), canonicalLineItem(record.lineItem)]),
+            ].join("|");
+            const base = `${line}|${periodKey(record.period)}`;
+            const occurrence = seen.get(base) ?? 0;
+            seen.set(base, occurrence + 1);
+
+            const row = `${line}#${occurrence}`;
+            if (!rows.has(row)) rows.set(row, record);
+            const { lineItem, subCategory, category, level } = rows.get(row)!;
+
+            const key = `${base}#${occurrence}`;
+            groups.set(key, [...(groups.get(key) ?? []), { ...record, lineItem, subCategory, category, level, document: name }]);
+        });
+    });
+
+    const restatements: Restatement[] = [];
+    const latest: CleanRecord[] = [];
+    groups.forEach(figures => {
+        const [winner] = figures;
+        latest.push(winner);
+
+        // Oldest to newest: every change between consecutive reports is a restatement
+        const chronological = [...figures].reverse();
+        chronological.slice(1).forEach((after, i) => {
+            const before = chronological[i];
+            if (!isRestated(before, after)) return;
+            restatements.push({
+                statementType: winner.statementType,
+                basis: winner.basis,
+                lineItem: winner.lineItem,
+                period: winner.period,
+                original: figureSource(before),
+                restated: figureSource(after),
+            });
+        });
+    });
+
+    const newest = documents[documents.length - 1]?.extraction;
+    const scale = newest ? dominantScale(newest.records) : null;
+    const records = scale ? convertToScale(latest, scale) : latest;
+
+    // Cross-checks on the merged series; records keep the confidence their report gave them
+    const periodsDetected = Array.from(new Map(records.map(r => [periodKey(r.period), r.period])).values()).sort(comparePeriods);
+    const { discrepancies } = validateExtraction({
+        records,
+        yearsDetected: [],
+        periodsDetected,
+        rejectedValues: [],
+    });
+
+    return {
+        records,
+        yearsDetected: Array.from(new Set(records.map(r => r.year))).sort(),
+        periodsDetected,
+        rejectedValues: documents.flatMap(d => d.extraction.rejectedValues),
+        discrepancies,
+        notes: `Merged ${documents.length} report(s): ${documents.map(d => d.name).join(", ")}. ${restatements.length} restated figure(s).`,
+        documents: documents.map(d => ({
+            name: d.name,
+            periods: [...d.extraction.periodsDetected].sort(comparePeriods).map(p => p.label),
+        })),
+        restatements,
+    };
+}
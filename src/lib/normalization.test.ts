@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { comparePeriods, normalizeFiscalYear, parsePeriodHeader, periodFromHeader } from "./normalization";
+
+const FISCAL_2024_25 = { year: "2025", label: "FY2024-25", endDate: "2025-03-31" };
+
+describe("normalizeFiscalYear", () => {
+    it("maps every way of writing a March year end to one fiscal year", () => {
+        for (const text of ["FY24-25", "FY 2024-25", "2024-25", "FY25", "March 2025", "Mar-25", "Mar'25", "31.03.2025", "Year ended 31 March 2025"]) {
+            assert.deepEqual(normalizeFiscalYear(text), FISCAL_2024_25, text);
+        }
+    });
+
+    it("puts a date inside the year in the fiscal year it falls in", () => {
+        assert.deepEqual(normalizeFiscalYear("31.12.2024"), FISCAL_2024_25);
+        assert.deepEqual(normalizeFiscalYear("30.06.2025"), { year: "2026", label: "FY2025-26", endDate: "2026-03-31" });
+    });
+
+    it("follows the company's year-end month", () => {
+        assert.deepEqual(normalizeFiscalYear("31.12.2024", 12), { year: "2024", label: "FY2024", endDate: "2024-12-31" });
+        assert.deepEqual(normalizeFiscalYear("FY 2023-24", 6), { year: "2024", label: "FY2023-24", endDate: "2024-06-30" });
+    });
+
+    it("ignores year ranges that are not consecutive", () => {
+        assert.equal(normalizeFiscalYear("Note 12-15"), null);
+    });
+});
+
+describe("parsePeriodHeader", () => {
+    it("reads type, end date and audit status", () => {
+        assert.deepEqual(parsePeriodHeader("Quarter ended 31.12.2024 (Unaudited)"), { type: "quarter", endDate: "2024-12-31", audited: false });
+        assert.deepEqual(parsePeriodHeader("Nine months ended 31.12.2024"), { type: "nine_months", endDate: "2024-12-31", audited: null });
+        assert.deepEqual(parsePeriodHeader("Year ended 31.03.2025 (Audited)"), { type: "year", endDate: "2025-03-31", audited: true });
+    });
+
+    it("leaves the type open when the header gives only a date", () => {
+        assert.deepEqual(parsePeriodHeader("31.03.2025"), { type: null, endDate: "2025-03-31", audited: null });
+    });
+
+    it("is null for headers that name no period", () => {
+        assert.equal(parsePeriodHeader("Particulars"), null);
+        assert.equal(parsePeriodHeader("Note"), null);
+    });
+});
+
+describe("periodFromHeader", () => {
+    it("builds a quarter with its start date", () => {
+        const period = periodFromHeader("Quarter ended 31.12.2024");
+        assert.equal(period?.label, "3M Dec 2024");
+        assert.equal(period?.startDate, "2024-10-01");
+        assert.equal(period?.fiscalYear, "FY2024-25");
+    });
+
+    it("builds a full year from a fiscal year label", () => {
+        const period = periodFromHeader("FY24-25");
+        assert.equal(period?.type, "year");
+        assert.equal(period?.startDate, "2024-04-01");
+        assert.equal(period?.endDate, "2025-03-31");
+    });
+
+    it("orders latest first, longer periods first on the same end date", () => {
+        const periods = ["Quarter ended 31.12.2024", "FY 2023-24", "Nine months ended 31.12.2024", "Year ended 31.03.2025"]
+            .map(text => periodFromHeader(text)!);
+        assert.deepEqual(periods.sort(comparePeriods).map(p => p.label), ["FY2024-25", "9M Dec 2024", "3M Dec 2024", "FY2023-24"]);
+    });
+});
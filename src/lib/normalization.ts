@@ -1,100 +1,349 @@
 
-import { RawRecordSchema, CleanExtractionSchema } from "./schema";
+import { RawRecordSchema, CleanExtractionSchema, CategorySchema, STATEMENT_CATEGORIES, StatementTypeSchema, PeriodTypeSchema, Category, StatementType, Period, PeriodType, RejectedValue } from "./schema";
 import { z } from "zod";
+import { detectMeasure, formatUnit, parseUnitCaption } from "./units";
+import { parseFinancialNumber } from "./number-parser";
+import { createAccountMapper } from "./taxonomy";
 
-// Normalize YEAR: "FY25" -> "2025", "31/12/2024" -> "2024"
-function normalizeYear(input: string): string | null {
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+// Normalize DATE: "31.12.2024" / "31/12/2024" / "31-Dec-2024" / "December 31, 2024" / "2024-12-31" -> "2024-12-31"
+function normalizeDate(input: string | undefined): string | null {
     if (!input) return null;
+    const text = input.toLowerCase();
+
+    const iso = text.match(/\b(20\d{2})-(\d{2})-(\d{2})\b/);
+    if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
 
-    // 31/12/2025 → 2025
-    const dateMatch = input.match(/\b(20\d{2})\b/);
-    if (dateMatch) return dateMatch[1];
+    // Day-first numeric dates (Indian filings): 31.12.2024, 31/12/2024, 31-12-2024
+    const numeric = text.match(/\b(\d{1,2})[./-](\d{1,2})[./-](20\d{2})\b/);
+    if (numeric) return `${numeric[3]}-${pad2(+numeric[2])}-${pad2(+numeric[1])}`;
+
+    // 31 December 2024, 31-Dec-2024
+    const dayMonth = text.match(/\b(\d{1,2})(?:st|nd|rd|th)?[\s.-]+([a-z]{3})[a-z]*[\s.,-]+(20\d{2})\b/);
+    if (dayMonth && MONTHS.includes(dayMonth[2])) {
+        return `${dayMonth[3]}-${pad2(MONTHS.indexOf(dayMonth[2]) + 1)}-${pad2(+dayMonth[1])}`;
+    }
 
-    // FY25 → 2025
-    const fyMatch = input.match(/FY\s?(\d{2,4})/i);
-    if (fyMatch) {
-        let year = fyMatch[1];
-        if (year.length === 2) year = "20" + year;
-        return year;
+    // December 31, 2024
+    const monthDay = text.match(/\b([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(20\d{2})\b/);
+    if (monthDay && MONTHS.includes(monthDay[1])) {
+        return `${monthDay[3]}-${pad2(MONTHS.indexOf(monthDay[1]) + 1)}-${pad2(+monthDay[2])}`;
     }
 
     return null;
 }
 
-// Normalize VALUE: "$1,234.00" -> 1234.00, "(500)" -> -500
-function normalizeNumber(val: any): number | null {
-    if (val === null || val === undefined) return null;
+export interface FiscalYear {
+    year: string;     // fiscal year named by the calendar year it ends in: "2025"
+    label: string;    // "FY2024-25", or "FY2025" when the fiscal year is the calendar year
+    endDate: string;  // last day of the fiscal year: "2025-03-31"
+}
+
+const toFullYear = (yy: string) => (yy.length === 2 ? 2000 + Number(yy) : Number(yy));
+
+// Fiscal year that contains the given month (1-12) of a calendar year
+function fiscalYearOf(calendarYear: number, month: number, yearEndMonth: number): FiscalYear {
+    const endYear = month <= yearEndMonth ? calendarYear : calendarYear + 1;
+    const lastDay = new Date(Date.UTC(endYear, yearEndMonth, 0)).getUTCDate();
+
+    return {
+        year: String(endYear),
+        label: yearEndMonth === 12 ? `FY${endYear}` : `FY${endYear - 1}-${pad2(endYear % 100)}`,
+        endDate: `${endYear}-${pad2(yearEndMonth)}-${pad2(lastDay)}`,
+    };
+}
+
+/**
+ * Normalize FISCAL YEAR for a company whose year ends in `yearEndMonth` (3 = March, Indian default).
+ * "FY24-25", "FY 2024-25", "2024-25", "FY25", "March 2025", "Mar-25", "31.03.2025" and
+ * "Year ended 31 March 2025" all map to { year: "2025", label: "FY2024-25", endDate: "2025-03-31" }.
+ * A date inside the year ("31.12.2024", a Q3 end) maps to the fiscal year it falls in.
+ */
+export function normalizeFiscalYear(input: string | undefined, yearEndMonth = 3): FiscalYear | null {
+    if (!input) return null;
+    const text = input.toLowerCase();
 
-    if (typeof val === "number") return val;
+    // 1. Full date: 31.03.2025, 31 March 2025, 2025-03-31
+    const date = normalizeDate(text);
+    if (date) return fiscalYearOf(Number(date.slice(0, 4)), Number(date.slice(5, 7)), yearEndMonth);
 
-    if (typeof val === "string") {
-        const cleaned = val
-            .replace(/,/g, "")
-            .replace(/\((.*?)\)/, "-$1")
-            .trim();
+    // 2. Year range: FY24-25, 2024-25, 2024/2025 (second year must follow the first)
+    const range = text.match(/\b(?:fy\s*'?)?(20\d{2}|\d{2})\s*[-–/]\s*(20\d{2}|\d{2})\b/);
+    if (range && toFullYear(range[2]) === toFullYear(range[1]) + 1) {
+        return fiscalYearOf(toFullYear(range[2]), yearEndMonth, yearEndMonth);
+    }
 
-        const num = parseFloat(cleaned);
-        return isNaN(num) ? null : num;
+    // 3. Month and year: March 2025, Mar-25, Mar'25
+    const monthYear = text.match(new RegExp(`\\b(${MONTHS.join("|")})[a-z]*\\.?[\\s,'’-]*(20\\d{2}|\\d{2})\\b`));
+    if (monthYear) {
+        return fiscalYearOf(toFullYear(monthYear[2]), MONTHS.indexOf(monthYear[1]) + 1, yearEndMonth);
     }
 
+    // 4. FY label: FY25, FY 2025, FY'25
+    const fy = text.match(/\bfy\s*'?(20\d{2}|\d{2})\b/);
+    if (fy) return fiscalYearOf(toFullYear(fy[1]), yearEndMonth, yearEndMonth);
+
+    // 5. Bare year: taken as the fiscal year it names
+    const bare = text.match(/\b(20\d{2})\b/);
+    if (bare) return fiscalYearOf(Number(bare[1]), yearEndMonth, yearEndMonth);
+
     return null;
 }
 
-// Normalize CATEGORY: "Total Revenue" -> "Revenue"
-function normalizeCategory(lineItem: string): string {
+const PERIOD_MONTHS: Record<PeriodType, number> = { quarter: 3, half_year: 6, nine_months: 9, year: 12 };
+const PERIOD_PREFIX: Record<PeriodType, string> = { quarter: "3M", half_year: "6M", nine_months: "9M", year: "FY" };
+
+// Start date from end date and period length
+function periodStartDate(endDate: string, type: PeriodType): string {
+    const [y, m, d] = endDate.split("-").map(Number);
+    const months = PERIOD_MONTHS[type];
+    const lastDayOfMonth = new Date(Date.UTC(y, m, 0)).getUTCDate();
+
+    // Month-end periods (31.03, 30.09, ...) start on the 1st of the first month
+    const start = d === lastDayOfMonth
+        ? new Date(Date.UTC(y, m - months, 1))
+        : new Date(Date.UTC(y, m - 1 - months, d + 1));
+
+    return start.toISOString().slice(0, 10);
+}
+
+// Infer the period type from the header text when the LLM did not give one
+function inferPeriodType(label: string): PeriodType {
+    const text = label.toLowerCase();
+    if (/nine\s*months|9\s*m\b/.test(text)) return "nine_months";
+    if (/half[\s-]*year|six\s*months|\bh[12]\b|6\s*m\b/.test(text)) return "half_year";
+    if (/quarter|three\s*months|\bq[1-4]\b|3\s*m\b/.test(text)) return "quarter";
+    return "year";
+}
+
+// "(Unaudited)" must be checked before "(Audited)" since one contains the other
+function inferAudited(label: string): boolean | null {
+    if (/un-?audited/i.test(label)) return false;
+    if (/audited/i.test(label)) return true;
+    return null;
+}
+
+export interface PeriodHeader {
+    type: PeriodType | null; // null when the header does not say ("31.03.2025" alone)
+    endDate: string | null;  // ISO
+    audited: boolean | null;
+}
+
+/**
+ * Reads a merged column header ("Quarter ended 31.12.2024 (Unaudited)", "FY 2024-25").
+ * Returns null when the header names no date or year, i.e. it is not a period column.
+ */
+export function parsePeriodHeader(label: string): PeriodHeader | null {
+    if (!normalizeFiscalYear(label)) return null;
+
+    const explicitType = /quarter|three\s*months|\bq[1-4]\b|half[\s-]*year|six\s*months|\bh[12]\b|nine\s*months|\b[369]\s*m\b|year|annual|\bfy|12\s*m\b/i.test(label);
+    return {
+        type: explicitType ? inferPeriodType(label) : null,
+        endDate: normalizeDate(label),
+        audited: inferAudited(label),
+    };
+}
+
+// Normalize PERIOD: column header info -> { type, startDate, endDate, audited, label, fiscalYear }
+function normalizePeriod(raw: { type?: string, endDate?: string, audited?: boolean | null, label?: string } | undefined, yearText: string, fiscal: FiscalYear): Period {
+    const headerText = [raw?.label, raw?.endDate, yearText].filter(Boolean).join(" ");
+    const type = PeriodTypeSchema.safeParse(raw?.type).data ?? inferPeriodType(headerText);
+    const audited = raw?.audited ?? inferAudited(headerText);
+
+    // A full-year column without a printed date ends on the fiscal year end
+    const endDate = normalizeDate(raw?.endDate) ?? normalizeDate(raw?.label) ?? normalizeDate(yearText)
+        ?? (type === "year" ? fiscal.endDate : null);
+
+    const label = type === "year"
+        ? fiscal.label
+        : endDate
+            ? `${PERIOD_PREFIX[type]} ${MONTH_LABELS[+endDate.slice(5, 7) - 1]} ${endDate.slice(0, 4)}`
+            : `${PERIOD_PREFIX[type]} ${fiscal.label}`;
+
+    return {
+        type,
+        startDate: endDate ? periodStartDate(endDate, type) : null,
+        endDate,
+        audited,
+        label,
+        fiscalYear: fiscal.label,
+    };
+}
+
+/**
+ * Period from a header typed by a reviewer ("Quarter ended 31.12.2024", "FY 2023-24").
+ * Returns null when the text names no date or year.
+ */
+export function periodFromHeader(label: string, yearEndMonth = 3): Period | null {
+    const fiscal = normalizeFiscalYear(label, yearEndMonth);
+    return fiscal ? normalizePeriod({ label }, label, fiscal) : null;
+}
+
+// Stable identity of a period, used to de-duplicate and pivot
+export function periodKey(period: Period): string {
+    return `${period.type}:${period.endDate ?? period.label}`;
+}
+
+// Latest period first; on the same end date, the longer period first (FY before 9M before Q)
+export function comparePeriods(a: Period, b: Period): number {
+    if (a.fiscalYear !== b.fiscalYear) return a.fiscalYear < b.fiscalYear ? 1 : -1;
+    const endA = a.endDate ?? "";
+    const endB = b.endDate ?? "";
+    if (endA !== endB) return endA < endB ? 1 : -1;
+    return PERIOD_MONTHS[b.type] - PERIOD_MONTHS[a.type];
+}
+
+// Normalize CATEGORY: "Total Revenue" -> "Revenue", "Trade payables" -> "Liabilities"
+export function normalizeCategory(lineItem: string, statementType: StatementType = "income_statement"): Category {
     const item = lineItem.toLowerCase();
+    const has = (...keywords: string[]) => keywords.some(k => item.includes(k));
+
+    if (statementType === "balance_sheet") {
+        // Liabilities first so "Total equity and liabilities" and "Deferred tax liabilities" land there
+        if (has("liabilit", "borrowing", "payable", "provision"))
+            return "Liabilities";
+
+        if (has("equity", "share capital", "reserves", "surplus", "non-controlling"))
+            return "Equity";
+
+        if (has("asset", "receivable", "inventor", "cash", "investment", "property", "goodwill", "capital work", "loan", "advance"))
+            return "Assets";
+
+        return "Other";
+    }
 
-    if (item.includes("revenue") || item.includes("income"))
+    if (statementType === "cash_flow") {
+        if (has("operating", "working capital", "depreciation", "taxes paid", "receivable", "payable", "inventor"))
+            return "Operating";
+
+        if (has("investing", "purchase of property", "capital expenditure", "investment", "interest received", "dividend received"))
+            return "Investing";
+
+        if (has("financing", "borrowing", "repayment", "dividend paid", "issue of", "lease liabilit", "interest paid"))
+            return "Financing";
+
+        return "Other";
+    }
+
+    if (has("revenue", "income"))
         return "Revenue";
 
-    if (
-        item.includes("expense") ||
-        item.includes("cost") ||
-        item.includes("depreciation")
-    )
+    if (has("expense", "cost", "depreciation"))
         return "Expenses";
 
-    if (item.includes("profit") || item.includes("loss"))
+    if (has("profit", "loss"))
         return "Profit";
 
     return "Other";
 }
 
+// The LLM's category only counts if it belongs to this statement's taxonomy
+function resolveCategory(category: string | undefined, lineItem: string, statementType: StatementType): Category {
+    const parsed = CategorySchema.safeParse(category);
+    if (parsed.success && STATEMENT_CATEGORIES[statementType].includes(parsed.data)) {
+        return parsed.data;
+    }
+    return normalizeCategory(lineItem, statementType);
+}
+
+export interface NormalizeOptions {
+    // Locale used to read ambiguous numbers ("1.234" in a German filing is 1234)
+    numberLocale?: string;
+    // Month (1-12) the company's fiscal year ends in. Default 3 (March, Indian filings)
+    fiscalYearEndMonth?: number;
+}
+
 // Main Normalization Function
-export function normalizeRecords(raw: any) {
+export function normalizeRecords(raw: any, options: NormalizeOptions = {}) {
     const cleanRecords = [];
+    const rejectedValues: RejectedValue[] = [];
 
     // Safety check for raw records array
     const records = Array.isArray(raw.records) ? raw.records : [];
+    const mapAccount = createAccountMapper(); // reads records in document order
 
     for (const r of records) {
-        const year = normalizeYear(r.year);
-        const value = normalizeNumber(r.value);
+        const reject = (reason: string) => rejectedValues.push({
+            lineItem: r.lineItem,
+            year: String(r.year ?? ""),
+            value: r.value === null || r.value === undefined ? "" : String(r.value),
+            reason,
+            page: r.page ?? null,
+        });
+
+        // Prefer the printed period end date ("Quarter ended 31.12.2024" -> FY2024-25), then the year text
+        const fiscal = [r.period?.endDate, r.year, r.period?.label]
+            .map(text => normalizeFiscalYear(text, options.fiscalYearEndMonth))
+            .find(f => f !== null);
+        const year = fiscal?.year;
+        const number = parseFinancialNumber(r.value, { locale: options.numberLocale });
 
-        if (!year) continue; // drop invalid year
-        if (value === null) continue; // drop invalid value logic
-        if (!r.sourceSnippet) continue; // enforce evidence
+        if (!fiscal || !year) { reject(`unrecognised year "${r.year}"`); continue; }
+        if (!number.ok) { reject(number.reason); continue; }
+        if (!r.sourceSnippet) { reject("no source snippet"); continue; } // enforce evidence
+        const value = number.value;
+
+        // Records without a statement type predate multi-statement support: treat as P&L
+        const statementType = StatementTypeSchema.safeParse(r.statementType).data ?? "income_statement";
+
+        // Table caption (currency/scale) applies to amounts only; EPS and % rows keep their own unit
+        const caption = parseUnitCaption(r.unit);
+        const measure = number.kind === "percentage" ? "percentage" : detectMeasure(r.lineItem, r.value);
+        const currency = measure === "percentage" ? null : (r.currency ?? caption?.currency ?? null);
+        const scale = measure === "amount" ? (r.scale ?? caption?.scale ?? null)
+            : measure === "per_share" ? "units"
+                : null;
+
+        const basis = r.basis ?? null;
+        const category = resolveCategory(r.category, r.lineItem, statementType);
+        const subCategory = r.subCategory || null;
 
         cleanRecords.push({
-            category: r.category || normalizeCategory(r.lineItem),
-            subCategory: r.subCategory || null,
+            statementType,
+            basis,
+            category,
+            subCategory,
+            level: r.level ?? (r.subCategory ? 1 : 0),
             lineItem: r.lineItem,
             year,
+            period: normalizePeriod(r.period, r.year, fiscal),
             value,
-            unit: r.unit || "Crores", // Default unit if missing
+            unit: formatUnit(currency, scale, measure),
+            currency,
+            scale,
+            measure,
             confidence: ["High", "Medium", "Low"].includes(r.confidence || "")
                 ? r.confidence
                 : "Medium",
             sourceSnippet: r.sourceSnippet,
+            page: r.page ?? null,
+            rowIndex: r.rowIndex ?? null,
+            reviewReason: r.reviewReason ?? null,
+            labelBox: r.labelBox ?? null,
+            valueBox: r.valueBox ?? null,
+            account: mapAccount({ statementType, basis, category, subCategory, lineItem: r.lineItem, normalizedName: r.normalizedName }),
         });
     }
 
     // Deduplicate years
     const uniqueYears = Array.from(new Set(cleanRecords.map(r => r.year))).sort();
 
+    // Deduplicate periods (latest first)
+    const uniquePeriods = Array.from(new Map(cleanRecords.map(r => [periodKey(r.period), r.period])).values())
+        .sort(comparePeriods);
+
     return {
         records: cleanRecords,
         yearsDetected: uniqueYears,
-        notes: raw.notes || "",
+        periodsDetected: uniquePeriods,
+        rejectedValues,
+        notes: [
+            raw.notes,
+            rejectedValues.length > 0 ? `${rejectedValues.length} value(s) rejected during normalization.` : ""
+        ].filter(Boolean).join(" "),
     };
 }
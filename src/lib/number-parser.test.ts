@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isNumberLocale, parseFinancialNumber } from "./number-parser";
+
+const valueOf = (input: unknown, locale?: string) => {
+    const result = parseFinancialNumber(input, { locale });
+    assert.ok(result.ok, `expected "${input}" to parse`);
+    return result.value;
+};
+
+const reasonFor = (input: unknown, locale?: string) => {
+    const result = parseFinancialNumber(input, { locale });
+    assert.ok(!result.ok, `expected "${input}" to be rejected`);
+    return result.reason;
+};
+
+describe("parseFinancialNumber", () => {
+    it("reads dashes and Nil as zero", () => {
+        assert.deepEqual(parseFinancialNumber("—"), { ok: true, value: 0, kind: "nil" });
+        assert.deepEqual(parseFinancialNumber("-"), { ok: true, value: 0, kind: "nil" });
+        assert.deepEqual(parseFinancialNumber("Nil"), { ok: true, value: 0, kind: "nil" });
+    });
+
+    it("reads brackets, trailing and leading minus as negative", () => {
+        assert.equal(valueOf("(1,234.50)"), -1234.5);
+        assert.equal(valueOf("500-"), -500);
+        assert.equal(valueOf("−500"), -500);
+    });
+
+    it("drops footnote markers and currency", () => {
+        assert.equal(valueOf("1,234*"), 1234);
+        assert.equal(valueOf("†1,234"), 1234);
+        assert.equal(valueOf("1,234 (a)"), 1234);
+        assert.equal(valueOf("₹ 1,234"), 1234);
+    });
+
+    it("reads Indian and Western grouping", () => {
+        assert.equal(valueOf("1,23,456"), 123456);
+        assert.equal(valueOf("12,34,56,789.50"), 123456789.5);
+        assert.equal(valueOf("1,234,567"), 1234567);
+    });
+
+    it("reads percentages", () => {
+        assert.deepEqual(parseFinancialNumber("12.5%"), { ok: true, value: 12.5, kind: "percentage" });
+        assert.deepEqual(parseFinancialNumber("(3.2)%"), { ok: true, value: -3.2, kind: "percentage" });
+    });
+
+    it("joins fragments split by the text layer", () => {
+        assert.equal(valueOf(["(1,", "234", ")"]), -1234);
+    });
+
+    it("reads European grouping when both separators are present", () => {
+        assert.equal(valueOf("1.234.567,89"), 1234567.89);
+    });
+
+    it("rejects grouping that is neither Western nor Indian", () => {
+        assert.equal(reasonFor("1,2345"), 'ambiguous digit grouping in "1,2345"');
+        assert.match(reasonFor("1,5"), /ambiguous/);
+        assert.match(reasonFor("12,3,456"), /ambiguous/);
+    });
+
+    it("reads a lone dot as a decimal point unless the locale groups with dots", () => {
+        assert.equal(valueOf("12.345"), 12.345);
+        assert.equal(valueOf("1.250"), 1.25);
+        assert.equal(valueOf("1.234", "de-DE"), 1234);
+        assert.equal(valueOf("1.234", "en-IN"), 1.234);
+        assert.equal(valueOf("0.125"), 0.125);
+        assert.equal(valueOf("12.50"), 12.5);
+    });
+
+    it("reads a decimal comma only when the locale uses one", () => {
+        assert.equal(valueOf("1234,56", "de-DE"), 1234.56);
+        assert.equal(valueOf("1,5", "fr-FR"), 1.5);
+        assert.match(reasonFor("1,2345", "en-US"), /ambiguous/);
+    });
+
+    it("accepts only locales it can read numbers in", () => {
+        assert.equal(isNumberLocale("de-DE"), true);
+        assert.equal(isNumberLocale("german"), false);
+        assert.equal(isNumberLocale(""), false);
+    });
+
+    it("says why a value was not read", () => {
+        assert.equal(reasonFor(""), "empty");
+        assert.equal(reasonFor("N.A."), "not applicable");
+        assert.match(reasonFor("12abc"), /unrecognised characters/);
+    });
+});
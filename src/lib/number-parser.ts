@@ -0,0 +1,159 @@
+
+/**
+ * Number Parser: turns the numeric text printed in financial statements into numbers.
+ * Deterministic. No AI.
+ *
+ * Handles "(500)", "500-", "−500", "—"/"Nil" (nil = 0), "1,234*" footnotes,
+ * "12.5%", Indian "1,23,456" and European "1.234,56" grouping.
+ * Never drops a value silently: a failed parse says why.
+ */
+
+export type NumberKind = "number" | "nil" | "percentage";
+
+export type NumberParseResult =
+    | { ok: true; value: number; kind: NumberKind }
+    | { ok: false; reason: string };
+
+export interface NumberParseOptions {
+    // BCP 47 locale whose decimal separator wins when a value is ambiguous ("de-DE" -> ",").
+    // Without it a lone comma must be valid grouping and a lone dot is a decimal point ("1.234" is 1.234).
+    locale?: string;
+}
+
+// Dashes and words statements print for "nothing here"
+const NIL_TEXT = /^(?:[-‐‑‒–—―]{1,3}|nil|none)$/i;
+const NOT_APPLICABLE_TEXT = /^(?:n\.?\s?a\.?|not applicable)$/i;
+
+// Footnote markers hugging a value: "1,234*", "1,234 ^", "†1,234", "1,234 (a)"
+const FOOTNOTE_MARKERS = /^[*^#†‡§]+\s*|\s*(?:[*^#†‡§]+|\([a-z]\))$/gi;
+
+// Currency symbols / codes printed inside a cell
+const CURRENCY_TEXT = /₹|\$|€|£|\brs\.?|\binr\b|\busd\b|\beur\b|\bgbp\b/gi;
+
+// Any minus-like character becomes ASCII "-"
+const MINUS_CHARS = /[−‒–—]/g;
+
+// True for a locale Intl can format numbers in ("de-DE", "en-IN"); false for "german" or ""
+export function isNumberLocale(locale: string): boolean {
+    try {
+        return Intl.NumberFormat.supportedLocalesOf(locale).length === 1;
+    } catch {
+        return false;
+    }
+}
+
+function decimalSeparatorFor(locale: string): "." | "," {
+    const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find(p => p.type === "decimal")?.value;
+    return decimal === "," ? "," : ".";
+}
+
+const count = (text: string, ch: string) => text.split(ch).length - 1;
+
+/**
+ * Works out which of "," / "." is the decimal separator and returns the
+ * plain digits string ("1.234,56" -> "1234.56"), or null if the grouping is invalid.
+ */
+function ungroup(body: string, preferred: "." | "," | null): string | null {
+    const commas = count(body, ",");
+    const dots = count(body, ".");
+
+    let decimal: "." | "," | null;
+    if (commas > 0 && dots > 0) {
+        // Both present: the last one is the decimal separator
+        decimal = body.lastIndexOf(",") > body.lastIndexOf(".") ? "," : ".";
+    } else if (commas > 0) {
+        // "1,234" / "1,23,456" group; "1234,56" is a decimal comma only when the locale says so,
+        // otherwise "1,2345" would quietly become 1.2345
+        decimal = commas === 1 && preferred === "," ? "," : null;
+    } else if (dots > 0) {
+        // "1.234.567" can only be grouping and "0.125" or "1.5" a decimal point; "1.234" is either,
+        // and grouping only when the locale writes decimals with a comma
+        const groupLike = dots > 1 || /^[1-9]\d{0,2}\.\d{3}$/.test(body);
+        decimal = dots === 1 && !(groupLike && preferred === ",") ? "." : null;
+    } else {
+        decimal = null;
+    }
+
+    // The grouping separator is the other one; with no decimal, whichever is present
+    const group = decimal ? (decimal === "," ? "." : ",") : (dots > 0 ? "." : ",");
+    const [intPart, fracPart, ...rest] = decimal ? body.split(decimal) : [body];
+    if (rest.length > 0 || intPart === "") return null;
+
+    // Grouped integer part: 1-3 leading digits, groups of 2-3 (Indian or Western), last group of 3
+    const grouping = new RegExp(`^\\d{1,3}(\\${group}\\d{2,3})*\\${group}\\d{3}$`);
+    if (intPart.includes(group) && !grouping.test(intPart)) return null;
+
+    const digits = intPart.split(group).join("");
+    if (!/^\d+$/.test(digits)) return null;
+    if (fracPart !== undefined && !/^\d+$/.test(fracPart)) return null;
+
+    return fracPart !== undefined ? `${digits}.${fracPart}` : digits;
+}
+
+/**
+ * Parses one printed value. Accepts numbers, strings, or the fragments of a
+ * value the PDF text layer split into several items (["(1,234", ")"]).
+ */
+export function parseFinancialNumber(input: unknown, options: NumberParseOptions = {}): NumberParseResult {
+    if (input === null || input === undefined) return { ok: false, reason: "empty" };
+
+    if (typeof input === "number") {
+        return Number.isFinite(input) ? { ok: true, value: input, kind: "number" } : { ok: false, reason: "not a finite number" };
+    }
+
+    if (Array.isArray(input)) {
+        return parseFinancialNumber(input.filter(p => typeof p === "string").join(""), options);
+    }
+
+    if (typeof input !== "string") return { ok: false, reason: `unsupported type ${typeof input}` };
+
+    let text = input
+        .replace(/[\u00a0\u2007\u2009\u202f]/g, " ") // non-breaking / thin spaces
+        .trim();
+
+    if (text === "") return { ok: false, reason: "empty" };
+    if (NIL_TEXT.test(text)) return { ok: true, value: 0, kind: "nil" };
+    if (NOT_APPLICABLE_TEXT.test(text)) return { ok: false, reason: "not applicable" };
+
+    text = text.replace(MINUS_CHARS, "-").replace(FOOTNOTE_MARKERS, "").replace(CURRENCY_TEXT, "").trim();
+
+    let negative = false;
+    let kind: NumberKind = "number";
+
+    if (text.endsWith("%")) {
+        kind = "percentage";
+        text = text.slice(0, -1).trim();
+    }
+
+    // (500) and 500- and -500 are all negative
+    const parens = text.match(/^\(\s*(.*?)\s*\)$/);
+    if (parens) {
+        negative = true;
+        text = parens[1];
+    }
+    if (text.endsWith("%")) {
+        kind = "percentage";
+        text = text.slice(0, -1).trim();
+    }
+    if (/^-\s*\S/.test(text)) {
+        negative = !negative;
+        text = text.replace(/^-\s*/, "");
+    } else if (/\S\s*-$/.test(text)) {
+        negative = !negative;
+        text = text.replace(/\s*-$/, "");
+    }
+
+    // Split fragments leave spaces inside the number: "1, 234" / "1 234.5"
+    const body = text.replace(/\s+/g, "");
+    if (body === "") return { ok: false, reason: `no digits in "${input}"` };
+    if (!/^[\d.,]+$/.test(body)) return { ok: false, reason: `unrecognised characters in "${input}"` };
+
+    const preferred = options.locale ? decimalSeparatorFor(options.locale) : null;
+    const plain = ungroup(body, preferred);
+    if (plain === null) return { ok: false, reason: `ambiguous digit grouping in "${input}"` };
+
+    const value = parseFloat(plain);
+    if (!Number.isFinite(value)) return { ok: false, reason: `not a number: "${input}"` };
+
+    return { ok: true, value: negative ? -value : value, kind };
+}
@@ -0,0 +1,108 @@
+import path from "path";
+import { createCanvas, DOMMatrix, Path2D, Canvas, SKRSContext2D } from "@napi-rs/canvas";
+import type { TextItem } from "./pdf-processor";
+
+/**
+ * Server-side twin of pdf-processor.ts: the same page images (base64 JPEG) and text items,
+ * produced in Node from the PDF bytes. Used by the REST API and the batch CLI, where no browser renders the pages.
+ * Rendering goes through @napi-rs/canvas (prebuilt, no system cairo needed).
+ */
+
+export interface RenderedPdf {
+    images: string[];
+    textData: TextItem[];     // `page` counts rendered pages from 1, like the images
+    pageNumbers: number[];    // document page number of each rendered page
+    pageCount: number;        // pages in the document, rendered or not
+}
+
+export interface RenderOptions {
+    firstPage?: number; // default 1
+    lastPage?: number;  // default: the last page
+    maxPages?: number;  // default 5, same as the browser
+    scale?: number;     // default 2.0, same as the browser
+}
+
+// pdf.js asks the factory for scratch canvases (patterns, masks) while rendering
+class NodeCanvasFactory {
+    create(width: number, height: number) {
+        const canvas = createCanvas(width, height);
+        return { canvas, context: canvas.getContext("2d") };
+    }
+
+    reset(entry: { canvas: Canvas }, width: number, height: number) {
+        entry.canvas.width = width;
+        entry.canvas.height = height;
+    }
+
+    destroy(entry: { canvas: Canvas | null, context: SKRSContext2D | null }) {
+        if (entry.canvas) {
+            entry.canvas.width = 0;
+            entry.canvas.height = 0;
+        }
+        entry.canvas = null;
+        entry.context = null;
+    }
+}
+
+async function loadPdfjs() {
+    // pdf.js polyfills these from the "canvas" package, which we do not ship
+    const globals = globalThis as Record<string, unknown>;
+    globals.DOMMatrix ??= DOMMatrix;
+    globals.Path2D ??= Path2D;
+
+    return import("pdfjs-dist/legacy/build/pdf.js");
+}
+
+export async function renderPdf(data: Uint8Array, options: RenderOptions = {}): Promise<RenderedPdf> {
+    const pdfjsLib = await loadPdfjs();
+    const canvasFactory = new NodeCanvasFactory();
+
+    const pdf = await pdfjsLib.getDocument({
+        data,
+        canvasFactory,
+        // Fonts the PDF references but does not embed (Helvetica, Times...)
+        standardFontDataUrl: path.join(process.cwd(), "node_modules", "pdfjs-dist", "standard_fonts") + path.sep,
+        isEvalSupported: false,
+    }).promise;
+
+    try {
+        const firstPage = Math.max(1, options.firstPage ?? 1);
+        const lastPage = Math.min(pdf.numPages, options.lastPage ?? pdf.numPages, firstPage + (options.maxPages ?? 5) - 1);
+        const images: string[] = [];
+        const textData: TextItem[] = [];
+        const pageNumbers: number[] = [];
+
+        // The pipeline expects pages 1..n matching the images, so selected pages are renumbered
+        for (let pageNumber = firstPage; pageNumber <= lastPage; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            pageNumbers.push(pageNumber);
+            const i = pageNumbers.length; // rendered page number
+
+            const viewport = page.getViewport({ scale: options.scale ?? 2.0 });
+            const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+            // pdf.js only needs the 2D context API, which @napi-rs/canvas implements
+            await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+            images.push((await canvas.encode("jpeg", 80)).toString("base64"));
+
+            // Same coordinates as extractTextWithCoordinates: PDF user space, origin bottom-left
+            const textContent = await page.getTextContent();
+            textContent.items.forEach(item => {
+                if (!("str" in item) || item.str.trim().length === 0) return;
+                textData.push({
+                    str: item.str,
+                    x: item.transform[4],
+                    y: item.transform[5],
+                    width: item.width,
+                    height: item.height,
+                    page: i
+                });
+            });
+
+            page.cleanup();
+        }
+
+        return { images, textData, pageNumbers, pageCount: pdf.numPages };
+    } finally {
+        await pdf.destroy();
+    }
+}
@@ -10,6 +10,9 @@ export interface TextItem {
     page: number;
 }
 
+// Page image pixels per PDF point
+export const RENDER_SCALE = 2.0;
+
 /**
  * Converts a PDF file into an array of Base64-encoded JPEG images.
  */
@@ -26,7 +29,7 @@ export async function convertPdfToImages(file: File): Promise<string[]> {
 
     for (let i = 1; i <= totalPages; i++) {
         const page = await pdf.getPage(i);
-        const viewport = page.getViewport({ scale: 2.0 });
+        const viewport = page.getViewport({ scale: RENDER_SCALE });
         const canvas = document.createElement('canvas');
         const context = canvas.getContext('2d');
         canvas.height = viewport.height;
@@ -75,3 +78,11 @@ export async function extractTextWithCoordinates(file: File): Promise<TextItem[]
 
     return allItems;
 }
+
+/**
+ * SHA-256 of the file's bytes (hex), to recognise the same document across uploads.
+ */
+export async function hashFile(file: File): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,153 @@
+import { before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { CleanRecord } from "./schema";
+import { TextItem } from "./pdf-processor";
+import { runExtractionPipeline } from "./pipeline";
+import { FixtureFile, LLMRequest, MemoryCacheStore, MockProvider } from "./llm";
+
+// The pipeline logs every stage; keep the test output to the results
+before(() => {
+    mock.method(console, "log", () => { });
+    mock.method(console, "warn", () => { });
+});
+
+function text(str: string, x: number, y: number): TextItem {
+    return { str, x, y, width: str.length * 5, height: 10, page: 1 };
+}
+
+// Right edges of the FY2024-25 and FY2023-24 columns
+const COLUMN_EDGES = [400, 550];
+const rightAligned = (str: string, column: number, y: number) => {
+    const item = text(str, 0, y);
+    return { ...item, x: COLUMN_EDGES[column] - item.width };
+};
+
+const ROWS: [string, string, string][] = [
+    ["Revenue from operations", "1,000", "900"],
+    ["Other income", "50", "40"],
+    ["Total income", "1,050", "940"],
+    ["Cost of materials consumed", "600", "550"],
+    ["Employee benefits expense", "200", "180"],
+    ["Total expenses", "800", "730"],
+    ["Profit before tax", "250", "210"],
+    ["Tax expense", "63", "53"],
+];
+
+// Text layer of a one-page income statement: grid rows 0-2 are the title, caption and column headers
+const STATEMENT_PAGE: TextItem[] = [
+    text("Statement of Profit and Loss for the year ended 31 March 2025", 50, 800),
+    rightAligned("(₹ in Crores)", 1, 786),
+    text("Particulars", 50, 760), rightAligned("Year ended 31.03.2025", 0, 760), rightAligned("Year ended 31.03.2024", 1, 760),
+    ...ROWS.flatMap(([label, current, previous], i) => [
+        text(label, 50, 740 - 14 * i), rightAligned(current, 0, 740 - 14 * i), rightAligned(previous, 1, 740 - 14 * i),
+    ]),
+];
+
+const PAGE_IMAGE = Buffer.from("page 1").toString("base64");
+
+// What the model answers for STATEMENT_PAGE
+const FIXTURES: FixtureFile = {
+    responses: [
+        { stage: "detection", key: "", response: { hasTable: true, tableType: "income_statement", basis: null, confidence: "high" } },
+        {
+            stage: "classification", key: "", response: {
+                columns: [
+                    { index: 1, type: "year", year: "2025", endDate: "31.03.2025", audited: null },
+                    { index: 2, type: "year", year: "2024", endDate: "31.03.2024", audited: null },
+                ],
+                rows: ["Revenue", "Revenue", "Revenue", "Expenses", "Expenses", "Expenses", "Profit", "Expenses"]
+                    .map((category, i) => ({ index: 3 + i, category })),
+            },
+        },
+    ],
+};
+
+// Replays FIXTURES and counts the requests that reach the "model"
+class CountingProvider extends MockProvider {
+    calls = 0;
+
+    constructor(model?: string) {
+        super({ ...FIXTURES, model });
+    }
+
+    async complete(request: LLMRequest): Promise<string> {
+        this.calls++;
+        return super.complete(request);
+    }
+}
+
+const valueOf = (records: CleanRecord[], lineItem: string, fiscalYear: string) =>
+    records.find(r => r.lineItem === lineItem && r.period.fiscalYear === fiscalYear)?.value;
+
+describe("runExtractionPipeline", () => {
+    it("extracts a statement with the model's detection and classification", async () => {
+        const provider = new CountingProvider();
+        const result = await runExtractionPipeline([PAGE_IMAGE], STATEMENT_PAGE, { provider, cache: null });
+
+        assert.equal(provider.calls, 2);
+        assert.equal(result.records.length, 16);
+        assert.equal(valueOf(result.records, "Revenue from operations", "FY2024-25"), 1000);
+        assert.equal(valueOf(result.records, "Tax expense", "FY2023-24"), 53);
+        assert.equal(result.records[0].scale, "crores");
+        assert.deepEqual(result.discrepancies, []);
+        assert.deepEqual([result.metadata?.provider, result.metadata?.mode], ["mock", "llm"]);
+    });
+});
+
+describe("runExtractionPipeline: deterministic mode", () => {
+    // The same statement without its title: the rules cannot tell which statement it is
+    const untitled = STATEMENT_PAGE.slice(1);
+
+    it("reads the statement by rules without calling the model", async () => {
+        const provider = new CountingProvider();
+        const result = await runExtractionPipeline([PAGE_IMAGE], STATEMENT_PAGE, { provider, cache: null, mode: "deterministic" });
+
+        assert.equal(provider.calls, 0);
+        assert.equal(result.records.length, 16);
+        assert.equal(valueOf(result.records, "Profit before tax", "FY2024-25"), 250);
+        assert.deepEqual([result.metadata?.provider, result.metadata?.mode], [null, "deterministic"]);
+    });
+
+    it("marks nothing found rather than calling the model when the fallback is review", async () => {
+        const provider = new CountingProvider();
+        const result = await runExtractionPipeline([PAGE_IMAGE], untitled, { provider, cache: null, mode: "deterministic" });
+
+        assert.equal(provider.calls, 0);
+        assert.deepEqual(result.records, []);
+        assert.equal(result.notes, "No financial table detected.");
+    });
+
+    it("asks the model to detect the page when the rules find no table and the fallback is llm", async () => {
+        const provider = new CountingProvider();
+        const result = await runExtractionPipeline([PAGE_IMAGE], untitled, { provider, cache: null, mode: "deterministic", fallback: "llm" });
+
+        // Detection only: the rules still classify the columns and rows
+        assert.equal(provider.calls, 1);
+        assert.equal(result.records.length, 16);
+        assert.equal(result.metadata?.provider, "mock");
+    });
+});
+
+describe("runExtractionPipeline: cache", () => {
+    it("answers a second run of the same document from the cache", async () => {
+        const cache = new MemoryCacheStore();
+        const provider = new CountingProvider();
+        const first = await runExtractionPipeline([PAGE_IMAGE], STATEMENT_PAGE, { provider, cache });
+        const second = await runExtractionPipeline([PAGE_IMAGE], STATEMENT_PAGE, { provider, cache });
+
+        assert.equal(provider.calls, 2);
+        assert.deepEqual(first.metadata?.cache, { hits: 0, misses: 2 });
+        assert.deepEqual(second.metadata?.cache, { hits: 2, misses: 0 });
+        assert.deepEqual(second.records, first.records);
+    });
+
+    it("misses when the model changes", async () => {
+        const cache = new MemoryCacheStore();
+        await runExtractionPipeline([PAGE_IMAGE], STATEMENT_PAGE, { provider: new CountingProvider(), cache });
+
+        const other = new CountingProvider("other-model");
+        const result = await runExtractionPipeline([PAGE_IMAGE], STATEMENT_PAGE, { provider: other, cache });
+        assert.equal(other.calls, 2);
+        assert.deepEqual(result.metadata?.cache, { hits: 0, misses: 2 });
+    });
+});
@@ -1,57 +1,35 @@
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import {
-    TableDetectionSchema,
-    TableClassificationSchema,
+    PageDetectionSchema,
     CleanExtractionSchema,
-    RawRecord
+    ExtractionMetadata,
+    RawRecord,
+    PageDetection,
+    ProgressEvent,
+    Basis,
+    BASIS_LABELS,
+    ClassifiedColumn,
+    StatementType,
+    TableClassification,
+    STATEMENT_CATEGORIES,
+    STATEMENT_LABELS
 } from "./schema";
-import { normalizeRecords } from "./normalization";
-import { layoutEngine, GridRow } from "@/lib/layout-engine";
-
-// Initialize Gemini
-const getGenAI = () => {
-    const key = process.env.GEMINI_API_KEY;
-    if (!key) throw new Error("GEMINI_API_KEY is not set");
-    return new GoogleGenerativeAI(key);
-};
-
-// Helper for LLM calls with retry
-async function callGemini(model: any, prompt: string, imageParts: any[], schema: any, stageName: string) {
-    const MAX_RETRIES = 2;
-    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-        try {
-            console.log(`[${stageName}] Attempt ${attempt}...`);
-            const result = await model.generateContent([prompt, ...imageParts]);
-            const response = await result.response;
-            let text = response.text();
-
-            // Clean markdown
-            text = text.replace(/```json/g, '').replace(/```/g, '').trim();
-
-            // Parse & Validate
-            const json = JSON.parse(text);
-            const parsed = schema.safeParse(json);
-
-            if (!parsed.success) {
-                console.warn(`[${stageName}] Schema Validation Failed:`, parsed.error);
-                throw new Error(`Invalid JSON structure for ${stageName}`);
-            }
-
-            return parsed.data;
-        } catch (error: any) {
-            console.warn(`[${stageName}] Error (Attempt ${attempt}):`, error.message);
-            if (attempt === MAX_RETRIES) throw error;
-            await new Promise(r => setTimeout(r, 1000 * attempt));
-        }
-    }
-}
-
-// --- PROMPTS ---
+import { normalizeRecords, parsePeriodHeader } from "./normalization";
+import { layoutEngine, unionBoxes, GridColumn, GridRow } from "@/lib/layout-engine";
+import { TextItem } from "./pdf-processor";
+import { parseUnitCaption, UnitCaption } from "./units";
+import { validateExtraction } from "./validation";
+import { CachingProvider, CacheStore, createCacheStore, createProvider, ImagePart, LLMProvider } from "./llm";
+import { classifyTableByRules, detectStatementByRules } from "./rules";
+import { accountsFor } from "./taxonomy";
+
+// Bump whenever a prompt below changes: cached LLM answers are keyed on it (see llm/cache.ts)
+export const PROMPT_VERSION = "grid-v2";
 
 const DETECT_PROMPT = `
 You are a strict document classifier.
-Check if the image contains a financial statement table (Income Statement / P&L).
+You are given ONE page of a document.
+Check if this page contains a financial statement table (Income Statement / P&L, Balance Sheet or Cash Flow).
 
 A valid table MUST have:
 - Column headers (Year/Quarter)
@@ -61,44 +39,186 @@ A valid table MUST have:
 Return JSON:
 {
   "hasTable": boolean,
-  "tableType": "income_statement" | "balance_sheet" | "other" | "unknown",
+  "tableType": "income_statement" | "balance_sheet" | "cash_flow" | "other" | "unknown",
+  "basis": "standalone" | "consolidated" | null (as stated in the page title; null if it does not say),
   "confidence": "high" | "medium" | "low"
 }
 `;
 
-// --- MAIN PIPELINE ---
+// --- PAGE DETECTION ---
 
-export async function runExtractionPipeline(base64Images: string[], textData: any[]) {
-    const model = getGenAI().getGenerativeModel({
-        model: process.env.GEMINI_MODEL || "gemini-1.5-flash",
-        generationConfig: { temperature: 0 }
-    });
+// Lower rank = stronger candidate
+const CONFIDENCE_RANK: Record<PageDetection["confidence"], number> = { high: 0, medium: 1, low: 2 };
 
-    const imageParts = base64Images.map(b64 => ({
-        inlineData: { data: b64, mimeType: "image/jpeg" }
-    }));
+/**
+ * Runs DETECTION on every page separately and returns the pages that hold a
+ * statement, ranked by confidence (ties keep document order).
+ */
+async function detectStatementPages(llm: LLMProvider, imageParts: ImagePart[], report: ProgressListener): Promise<PageDetection[]> {
+    const detections: PageDetection[] = [];
 
-    // STEP 1: DETECT (Vision is best for "Is there a table?")
-    const detection = await callGemini(model, DETECT_PROMPT, imageParts, TableDetectionSchema, "DETECTION");
+    // Sequential on purpose: one request at a time keeps us under the free-tier rate limit
+    for (let i = 0; i < imageParts.length; i++) {
+        const page = i + 1;
+        report({ stage: "detection", status: "running", message: `Reading page ${page} of ${imageParts.length}`, page, current: i, total: imageParts.length });
+        const detection = await llm.detectTable(DETECT_PROMPT, imageParts[i], { tag: `DETECTION p${page}`, promptVersion: PROMPT_VERSION });
 
-    if (!detection.hasTable || detection.confidence === "low") {
-        console.log("Pipeline stopped: No table detected.");
-        return { records: [], yearsDetected: [], notes: "No financial table detected." };
+        if (!detection.hasTable || detection.confidence === "low") {
+            console.log(`[DETECTION p${page}] No statement on this page.`);
+            continue;
+        }
+
+        detections.push(PageDetectionSchema.parse({ ...detection, page }));
     }
 
-    // STEP 2: EXTRACT STRUCTURE (DETERMINISTIC LAYOUT ENGINE)
-    console.log("Building Deterministic Grid from Text Layout...");
+    return rankDetections(detections);
+}
+
+/**
+ * Deterministic DETECTION: statement titles and rows of numbers in each page's text layer.
+ * Scanned pages (no text layer) are never found this way.
+ */
+function detectStatementPagesByRules(textData: TextItem[], pageCount: number, report: ProgressListener): PageDetection[] {
+    const detections: PageDetection[] = [];
+
+    for (let page = 1; page <= pageCount; page++) {
+        report({ stage: "detection", status: "running", message: `Reading page ${page} of ${pageCount}`, page, current: page - 1, total: pageCount });
+        const detection = detectStatementByRules(textData.filter(t => t.page === page), page);
+        if (!detection) {
+            console.log(`[RULES p${page}] No statement on this page.`);
+            continue;
+        }
+        detections.push(detection);
+    }
+
+    return rankDetections(detections);
+}
 
-    // CRITICAL FIX: Filter textData to only the first page (Page 1) to avoid massive context
-    // In future this should be smarter
-    const page1Text = textData.filter(t => t.page === 1);
+function rankDetections(detections: PageDetection[]): PageDetection[] {
+    return detections.sort((a, b) =>
+        CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence] || a.page - b.page
+    );
+}
+
+// --- TABLE GROUPING ---
+
+interface StatementTable {
+    pages: number[];
+    statementType: StatementType;
+    basis: Basis | null;
+}
+
+// "other" / "unknown" tables still hold numbers; read them with the P&L taxonomy as before
+function toStatementType(tableType: PageDetection["tableType"]): StatementType {
+    return tableType === "balance_sheet" || tableType === "cash_flow" ? tableType : "income_statement";
+}
 
-    if (page1Text.length === 0) {
-        console.warn("No text found on Page 1. Layout engine might fail.");
+/**
+ * Groups detected pages into logical tables: consecutive pages with the same
+ * tableType are treated as one statement continuing across a page break.
+ * A change of basis (Standalone P&L followed by the Consolidated P&L) starts a new table;
+ * a continuation page that does not restate its basis keeps the table's.
+ */
+function groupIntoTables(detections: PageDetection[]): StatementTable[] {
+    const inOrder = [...detections].sort((a, b) => a.page - b.page);
+    const tables: StatementTable[] = [];
+
+    inOrder.forEach((d, i) => {
+        const prev = inOrder[i - 1];
+        const current = tables[tables.length - 1];
+        if (prev && prev.page === d.page - 1 && prev.tableType === d.tableType && (!d.basis || d.basis === current.basis)) {
+            current.pages.push(d.page);
+        } else {
+            tables.push({ pages: [d.page], statementType: toStatementType(d.tableType), basis: d.basis ?? null });
+        }
+    });
+
+    return tables;
+}
+
+// --- BASIS ---
+
+const BASIS_TEXT = /\b(stand[\s-]?alone|consolidated)\b/i;
+
+// First basis named in a piece of text
+function basisOf(text: string | undefined): Basis | null {
+    const match = text?.match(BASIS_TEXT);
+    if (!match) return null;
+    return /consolidated/i.test(match[0]) ? "consolidated" : "standalone";
+}
+
+/**
+ * Reads Standalone / Consolidated from a page's own text. The topmost mention wins:
+ * it is the title, while notes lower down may refer to the other basis.
+ */
+function findBasis(pageText: TextItem[]): Basis | null {
+    const mention = [...pageText].sort((a, b) => b.y - a.y).find(t => BASIS_TEXT.test(t.str));
+    return basisOf(mention?.str);
+}
+
+// --- UNIT CAPTION ---
+
+/**
+ * Looks for "(₹ in Crores)" style captions: header band first, then any
+ * single-cell row (some filings print the caption below the title block).
+ */
+function findUnitCaption(gridRows: GridRow[], gridColumns: GridColumn[]): UnitCaption | null {
+    const rowText = (r: GridRow) => r.cells.map(c => c.text).join(" ");
+    const candidates = [...layoutEngine.headerRows(gridRows, gridColumns), ...gridRows.filter(r => r.cells.length === 1)];
+
+    for (const row of candidates) {
+        const caption = parseUnitCaption(rowText(row));
+        if (caption) return caption;
     }
+    return null;
+}
+
+// Column fit (see LayoutEngine.alignCellsToColumns) -> confidence of the values read from it
+function columnConfidence(column: GridColumn): "High" | "Medium" | "Low" {
+    if (column.fit >= 0.75) return "High";
+    if (column.fit >= 0.5) return "Medium";
+    return "Low";
+}
 
-    // layoutEngine.buildGrid returns rows with cells assigned to 'colIndex'
-    const { rows: gridRows, headers: gridColumns } = layoutEngine.buildGrid(page1Text);
+/**
+ * Periods read from the merged header band (LayoutEngine.labelColumns) are facts, not guesses:
+ * they override the LLM's reading of the same column, and add period columns it missed.
+ * The LLM still fills in what the header leaves open (e.g. the period type over a bare date).
+ */
+function resolvePeriodColumns(classified: ClassifiedColumn[], gridColumns: GridColumn[]): ClassifiedColumn[] {
+    const byIndex = new Map(classified.map(c => [c.index, c]));
+
+    gridColumns.forEach((column, index) => {
+        const header = column.align === "right" && column.label ? parsePeriodHeader(column.label) : null;
+        if (!header) return;
+
+        const llm = byIndex.get(index);
+        byIndex.set(index, {
+            index,
+            type: header.type ?? (llm && llm.type !== "unknown" ? llm.type : "year"),
+            year: header.endDate ?? column.label,
+            endDate: header.endDate ?? llm?.endDate,
+            audited: header.audited ?? llm?.audited,
+            label: column.label,
+        });
+    });
+
+    return Array.from(byIndex.values()).sort((a, b) => a.index - b.index);
+}
+
+/**
+ * STEP 3 (LLM): the dense grid plus the page images go to the model, which names
+ * the period columns and the category of every row by grid index.
+ */
+async function classifyWithLLM(
+    llm: LLMProvider,
+    tag: string,
+    statementType: StatementType,
+    gridRows: GridRow[],
+    gridColumns: GridColumn[],
+    imageParts: ImagePart[]
+): Promise<TableClassification> {
+    const categories = STATEMENT_CATEGORIES[statementType];
 
     // Create a DENSE visual representation for the LLM
     // We map every row to an array of size [totalColumns], filling empty spots.
@@ -115,34 +235,121 @@ export async function runExtractionPipeline(base64Images: string[], textData: an
         return `Row ${i}: | ${denseRow.join(" | ")} |`;
     }).join("\n");
 
+    // Stacked header rows merged into one label per column
+    const headerLabels = gridColumns
+        .map((c, i) => (c.label ? `Column ${i}: ${c.label}` : null))
+        .filter(Boolean)
+        .join("\n");
+
     const GRID_CONTEXT_PROMPT = `
     Here is the EXACT TEXT STRUCTURE extracted from the document coordinates:
     (Empty cells are shown as empty space between pipes)
     ${gridRepresentation}
+
+    Column headers (stacked header rows merged per column):
+    ${headerLabels || "(none found)"}
     
     Based on this structure (and the visual context from images):
     `;
 
-    // STEP 3: CLASSIFY SEMANTICS (Using the Grid Context + Vision)
-    // We update the prompt to reference the grid indices
+    // The prompt references the grid indices
     const CLASSIFY_WITH_GRID_PROMPT = `
     You are a financial analyst.
+    This table is a ${STATEMENT_LABELS[statementType]}.
     I have extracted the text structure into rows (indexed 0 to N).
     
     ${GRID_CONTEXT_PROMPT}
 
     YOUR JOB:
-    1. Identify which Columns (by index 0 to ${totalColumns - 1}) are Years.
-    2. Identify which Rows (by index 0..N) are "Revenue", "Expenses", "Profit".
+    1. Identify which Columns (by index 0 to ${totalColumns - 1}) hold reporting periods
+       (Quarter ended / Half year ended / Nine months ended / Year ended).
+       For each, give the period end date exactly as printed and whether the header says Audited or Unaudited.
+    2. Identify which Rows (by index 0..N) are ${categories.filter(c => c !== "Other").map(c => `"${c}"`).join(", ")}.
+    3. For each row, give the standard name of the line item when it is one of:
+       ${accountsFor(statementType).map(a => `"${a.name}"`).join(", ")}.
+       Leave it out when none fits.
 
     Return JSON:
     {
-      "columns": [{ "index": number, "type": "year" | "quarter", "year": "YYYY" }],
-      "rows": [{ "index": number, "category": "Revenue" | "Expenses" | "Profit" | "Other" }]
+      "columns": [{ "index": number, "type": "year" | "nine_months" | "half_year" | "quarter", "year": "YYYY", "endDate": "as printed", "audited": boolean | null, "label": "full header text" }],
+      "rows": [{ "index": number, "category": ${categories.map(c => `"${c}"`).join(" | ")}, "normalizedName": "standard name" }]
     }
     `;
 
-    const classification = await callGemini(model, CLASSIFY_WITH_GRID_PROMPT, imageParts, TableClassificationSchema, "CLASSIFICATION");
+    return llm.classifyTable(CLASSIFY_WITH_GRID_PROMPT, imageParts, {
+        tag: `CLASSIFICATION ${tag}`,
+        promptVersion: PROMPT_VERSION,
+        gridText: [statementType, gridRepresentation, headerLabels].join("\n")
+    });
+}
+
+// --- PER-TABLE EXTRACTION ---
+
+// How a table's columns and rows get classified (see PipelineOptions)
+interface Classifier {
+    mode: ExtractionMode;
+    llm: LLMProvider | null; // null: rules only, nothing is sent to a model
+}
+
+/**
+ * Layout + Classification + Merge for one logical table (one or more consecutive pages).
+ * Every record produced here is tagged with the page its row came from.
+ */
+async function extractTable(
+    classifier: Classifier,
+    table: StatementTable,
+    imageParts: ImagePart[],
+    tableText: TextItem[],
+    report: (stage: ProgressEvent["stage"], message: string) => void
+): Promise<RawRecord[]> {
+    const { pages, statementType } = table;
+    const tag = `p${pages.join("-")}`;
+
+    // STEP 2: EXTRACT STRUCTURE (DETERMINISTIC LAYOUT ENGINE)
+    console.log(`[LAYOUT ${tag}] Building Deterministic Grid from Text Layout...`);
+    report("layout", `${STATEMENT_LABELS[statementType]}, page ${pages.join("-")}`);
+
+    if (tableText.length === 0) {
+        console.warn(`[LAYOUT ${tag}] No text found on page(s) ${pages.join(", ")}. Layout engine might fail.`);
+    }
+
+    // Stitches continuation pages into one grid; rows keep their 'page' and cells get 'colIndex'
+    const { rows: gridRows, headers: gridColumns } = layoutEngine.buildMultiPageGrid(tableText);
+
+    // Loosely aligned columns (scanned or centred numbers) make every value in them less certain
+    const looseColumns = gridColumns.map((c, i) => ({ ...c, index: i })).filter(c => columnConfidence(c) !== "High");
+    if (looseColumns.length > 0) {
+        console.warn(`[LAYOUT ${tag}] Loosely aligned columns: ${looseColumns.map(c => `#${c.index} (fit ${c.fit})`).join(", ")}`);
+    }
+
+    // Unit/scale caption ("₹ in Crores") sits in the header band above the numbers
+    const caption = findUnitCaption(gridRows, gridColumns);
+    if (caption) {
+        console.log(`[LAYOUT ${tag}] Unit caption: ${caption.currency ?? "?"} ${caption.scale ?? "?"}`);
+    } else {
+        console.warn(`[LAYOUT ${tag}] No unit caption found; values keep an unknown scale.`);
+    }
+
+    // STEP 3: CLASSIFY SEMANTICS: rules (deterministic mode) or the LLM (Grid Context + Vision)
+    let classification: TableClassification;
+    let review = new Map<number, string>();
+    let columnReview = new Map<number, string>();
+
+    report("classification", `${STATEMENT_LABELS[statementType]}, page ${pages.join("-")}`);
+    const rules = classifier.mode === "deterministic" ? classifyTableByRules(gridRows, gridColumns, statementType) : null;
+    if (rules && (rules.confident || !classifier.llm)) {
+        ({ classification, review, columnReview } = rules);
+        if (!rules.confident) {
+            console.warn(`[RULES ${tag}] Not confident (${rules.reason}); every row is marked for review.`);
+            classification.rows.forEach(r => {
+                if (!review.has(r.index)) review.set(r.index, `Table not confidently classified: ${rules.reason}`);
+            });
+        }
+    } else {
+        if (rules) console.warn(`[RULES ${tag}] Not confident (${rules.reason}); falling back to ${classifier.llm!.name}.`);
+        classification = await classifyWithLLM(classifier.llm!, tag, statementType, gridRows, gridColumns, imageParts);
+    }
+    const periodColumns = resolvePeriodColumns(classification.columns, gridColumns);
 
     // STEP 4: DETERMINISTIC MERGE
     const rawRecords: RawRecord[] = [];
@@ -155,32 +362,191 @@ export async function runExtractionPipeline(base64Images: string[], textData: an
         // Heuristic: First cell is label.
         const lineItem = gridRow.cells[0]?.text || "Unknown";
 
-        // Iterate over the CLASSIFIED columns to find values in this row
-        classification.columns.forEach((classCol: any) => {
-            if (classCol.type === "year" && classCol.year) {
-                // Find the cell in this row that matches the column index
-                const cell = gridRow.cells.find((c: any) => c.colIndex === classCol.index);
-                const value = cell ? cell.text : null; // If no cell at this index, value is null/missing
+        // Parent heading from indentation (see LayoutEngine.assignHierarchy)
+        const parentRow = gridRow.parentIndex != null ? gridRows[gridRow.parentIndex] : null;
+        const subCategory = parentRow?.cells[0]?.text || null;
+
+        // Iterate over the CLASSIFIED period columns to find values in this row
+        periodColumns.forEach(classCol => {
+            const periodYear = classCol.year || classCol.endDate;
+            if (classCol.type !== "unknown" && periodYear) {
+                // Find the cell(s) in this row at the column index; the PDF text layer
+                // sometimes splits one value into fragments ("(1,234" + ")")
+                const cells = gridRow.cells.filter(c => c.colIndex === classCol.index);
+                const value = cells.length > 0 ? cells.map(c => c.text).join(" ") : null; // If no cell at this index, value is null/missing
 
                 if (value) {
+                    const reviewReason = review.get(classRow.index) ?? columnReview.get(classCol.index) ?? null;
                     rawRecords.push({
+                        statementType,
+                        // Side-by-side layouts head their column groups "Standalone" / "Consolidated"
+                        basis: basisOf(gridColumns[classCol.index]?.label) ?? table.basis,
                         category: classRow.category,
                         lineItem: lineItem,
-                        year: classCol.year,
+                        year: periodYear,
+                        period: {
+                            type: classCol.type,
+                            endDate: classCol.endDate,
+                            audited: classCol.audited,
+                            label: classCol.label
+                        },
                         value: value, // EXACT text from PDF
                         sourceSnippet: `${lineItem}: ${value}`,
-                        confidence: "High",
-                        subCategory: null,
-                        unit: null
+                        confidence: reviewReason || !gridColumns[classCol.index] ? "Low" : columnConfidence(gridColumns[classCol.index]),
+                        subCategory,
+                        level: gridRow.depth ?? 0,
+                        unit: null,
+                        currency: caption?.currency ?? null,
+                        scale: caption?.scale ?? null,
+                        page: gridRow.page ?? pages[0],
+                        rowIndex: classRow.index,
+                        reviewReason,
+                        normalizedName: classRow.normalizedName,
+                        // Provenance: the cells in the PDF this record was read from
+                        labelBox: gridRow.cells[0]?.box ?? null,
+                        valueBox: unionBoxes(cells.map(c => c.box))
                     });
                 }
             }
         });
     }
 
+    // Document order (the LLM may list rows in any order)
+    return rawRecords.sort((a, b) => (a.rowIndex ?? 0) - (b.rowIndex ?? 0));
+}
+
+// --- MAIN PIPELINE ---
+
+// "llm": vision + grid classification. "deterministic": rules over the text layer only (see rules.ts)
+export type ExtractionMode = "llm" | "deterministic";
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+export interface PipelineOptions {
+    // Month (1-12) the company's fiscal year ends in. Default 3 (March)
+    fiscalYearEndMonth?: number;
+    // Locale whose decimal separator decides ambiguous values ("de-DE": "1.234" is 1234). Default: "." is a decimal point
+    numberLocale?: string;
+    // Model backend; defaults to the one configured in the environment (see createProvider)
+    provider?: LLMProvider;
+    // Default "llm"
+    mode?: ExtractionMode;
+    // Deterministic mode, when the rules are not confident: "review" marks the rows for an analyst
+    // and never calls a model (default); "llm" hands that page/table to the LLM instead
+    fallback?: "review" | "llm";
+    // Cache for LLM stage answers; defaults to the store named by LLM_CACHE. null turns it off
+    cache?: CacheStore | null;
+    // Called as each stage starts, moves to another page/table, and finishes
+    onProgress?: ProgressListener;
+    // Only extract these statements; pages detected as other statements are skipped. Default: all
+    statementTypes?: StatementType[];
+}
+
+// Shared across runs so a re-upload of the same PDF is answered from memory
+let defaultCache: CacheStore | null | undefined;
+
+function buildMetadata(mode: ExtractionMode, llm: CachingProvider | null): ExtractionMetadata {
+    const stages = llm?.stageLog ?? [];
+    return {
+        provider: llm?.name ?? null,
+        model: llm?.model ?? null,
+        mode,
+        promptVersion: PROMPT_VERSION,
+        cache: {
+            hits: stages.filter(s => s.cache === "hit").length,
+            misses: stages.filter(s => s.cache === "miss").length
+        },
+        stages
+    };
+}
+
+export async function runExtractionPipeline(base64Images: string[], textData: TextItem[], options: PipelineOptions = {}) {
+    const mode = options.mode ?? "llm";
+    const report: ProgressListener = event => options.onProgress?.(event);
+
+    // Rules-only runs never build a provider, so no document can reach a third party
+    const provider = mode === "llm" || options.fallback === "llm" ? options.provider ?? createProvider() : null;
+    if (options.cache === undefined && defaultCache === undefined) defaultCache = createCacheStore();
+    const cache = options.cache === undefined ? defaultCache! : options.cache;
+    const llm = provider ? new CachingProvider(provider, cache) : null;
+    console.log(`Mode: ${mode}${llm ? `, LLM provider: ${llm.name} (${llm.model}), cache: ${cache?.kind ?? "off"}` : " (no LLM)"}`);
+
+    const imageParts: ImagePart[] = base64Images.map(b64 => ({ data: b64, mimeType: "image/jpeg" }));
+
+    // STEP 1: DETECT (Vision is best for "Is there a table?"), one page at a time.
+    // Deterministic mode reads titles from the text layer instead, falling back to vision if allowed.
+    let detections = mode === "deterministic"
+        ? detectStatementPagesByRules(textData, base64Images.length, report)
+        : await detectStatementPages(llm!, imageParts, report);
+
+    if (mode === "deterministic" && detections.length === 0 && llm) {
+        console.warn(`[RULES] No statement title found; falling back to ${llm.name} detection.`);
+        detections = await detectStatementPages(llm, imageParts, report);
+    }
+    report({ stage: "detection", status: "done", message: `${detections.length} statement page(s) found`, current: base64Images.length, total: base64Images.length });
+
+    // The basis printed in the page text beats the model's reading of the title.
+    const detectedPages = detections
+        .filter(d => !options.statementTypes || options.statementTypes.some(type => type === d.tableType))
+        .map(d => ({
+            ...d,
+            basis: findBasis(textData.filter(t => t.page === d.page)) ?? d.basis ?? null
+        }));
+
+    if (detectedPages.length === 0) {
+        console.log("Pipeline stopped: No table detected.");
+        return CleanExtractionSchema.parse({
+            ...validateExtraction(normalizeRecords({ records: [], notes: "No financial table detected." })),
+            metadata: buildMetadata(mode, llm)
+        });
+    }
+
+    const pageSummary = detectedPages
+        .map(d => `p${d.page} (${[d.basis && BASIS_LABELS[d.basis], d.tableType, d.confidence].filter(Boolean).join(", ")})`)
+        .join(", ");
+    console.log(`Statement pages (ranked): ${pageSummary}`);
+
+    // STEPS 2-4 per logical table, in document order so records read top-to-bottom
+    const rawRecords: RawRecord[] = [];
+
+    const tables = groupIntoTables(detectedPages);
+
+    for (const [i, table] of tables.entries()) {
+        const tableText = textData.filter(t => table.pages.includes(t.page));
+        const tableImages = table.pages.map(page => imageParts[page - 1]);
+        const tableRecords = await extractTable({ mode, llm }, table, tableImages, tableText, (stage, message) =>
+            report({ stage, status: "running", message, page: table.pages[0], current: i, total: tables.length })
+        );
+        rawRecords.push(...tableRecords);
+    }
+    report({ stage: "layout", status: "done", message: `${tables.length} table(s)`, current: tables.length, total: tables.length });
+    report({ stage: "classification", status: "done", message: `${rawRecords.length} value(s) read`, current: tables.length, total: tables.length });
+
     // Step 5: Normalize & Final Clean
-    const normalized = normalizeRecords({ records: rawRecords });
-    const final = CleanExtractionSchema.parse(normalized);
+    report({ stage: "normalization", status: "running", message: "Parsing numbers, periods and units" });
+    const flagged = rawRecords.filter(r => r.reviewReason).length;
+    const normalized = normalizeRecords({
+        records: rawRecords,
+        notes: [
+            `Statement pages (ranked): ${pageSummary}`,
+            flagged > 0 ? `${flagged} value(s) marked for review by the deterministic rules.` : null
+        ].filter(Boolean).join("\n")
+    }, { fiscalYearEndMonth: options.fiscalYearEndMonth, numberLocale: options.numberLocale });
+
+    report({ stage: "normalization", status: "done", message: `${normalized.records.length} record(s)` });
+
+    // Step 6: Cross-check totals and statement identities
+    report({ stage: "validation", status: "running", message: "Checking subtotals and statement identities" });
+    const validated = validateExtraction(normalized);
+    report({ stage: "validation", status: "done", message: `${validated.discrepancies.length} discrepancy(ies)` });
+    if (validated.discrepancies.length > 0) {
+        console.warn(`[VALIDATION] ${validated.discrepancies.length} discrepancy(ies) found.`);
+    }
+
+    const metadata = buildMetadata(mode, llm);
+    if (llm) console.log(`[CACHE] ${metadata.cache.hits} hit(s), ${metadata.cache.misses} miss(es)`);
+
+    const final = CleanExtractionSchema.parse({ ...validated, metadata });
 
     return final;
 }
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CleanRecord } from "./schema";
+import { periodKey } from "./normalization";
+import { pivotRecords } from "./pivot";
+import { applyCorrections, createCorrection } from "./review";
+import { FY2023_24, FY2024_25, makeExtraction, makeRecord } from "./test-helpers";
+
+const ids = (records: CleanRecord[]) => new Map(records.map((r, i) => [r, i]));
+
+describe("pivotRecords", () => {
+    it("puts each line item on one row with its value per period, latest period first", () => {
+        const records = [
+            makeRecord({ period: FY2023_24, year: "2024", value: 900 }),
+            makeRecord({ value: 1000 }),
+        ];
+        const { headers, rows } = pivotRecords(records, ids(records));
+
+        assert.deepEqual(headers.map(p => p.label), ["FY2024-25", "FY2023-24"]);
+        assert.equal(rows.length, 1);
+        assert.deepEqual(rows[0].values, { [periodKey(FY2024_25)]: 1000, [periodKey(FY2023_24)]: 900 });
+    });
+
+    it("keeps two rows with the same label apart", () => {
+        const others = (value: number, rowIndex: number, overrides: Partial<CleanRecord> = {}) =>
+            makeRecord({ category: "Expenses", subCategory: "Other expenses", lineItem: "Others", value, rowIndex, ...overrides });
+        const records = [
+            others(10, 1), others(20, 2),
+            others(9, 1, { period: FY2023_24, year: "2024" }), others(18, 2, { period: FY2023_24, year: "2024" }),
+        ];
+        const { rows } = pivotRecords(records, ids(records));
+
+        assert.deepEqual(rows.map(r => [r.lineItem, r.values[periodKey(FY2024_25)], r.values[periodKey(FY2023_24)]]), [["Others", 10, 9], ["Others", 20, 18]]);
+    });
+
+    it("gives each cell of a repeated label the ID of its own record, so a correction lands there", () => {
+        const records = [
+            makeRecord({ lineItem: "Others", value: 10, rowIndex: 1 }),
+            makeRecord({ lineItem: "Others", value: 20, rowIndex: 2 }),
+        ];
+        const { rows } = pivotRecords(records, ids(records));
+        const id = rows[1].ids[periodKey(FY2024_25)];
+        assert.equal(id, 1);
+
+        const corrected = applyCorrections(makeExtraction(records, {
+            corrections: [createCorrection({ recordIds: [id], field: "value", from: 20, to: 25, reviewer: "analyst" })],
+        }));
+        const [first, second] = pivotRecords(corrected.records, ids(corrected.records)).rows;
+        assert.deepEqual([first.values[periodKey(FY2024_25)], second.values[periodKey(FY2024_25)]], [10, 25]);
+    });
+
+    it("marks a row low confidence when any of its values is", () => {
+        const records = [makeRecord(), makeRecord({ period: FY2023_24, year: "2024", confidence: "Low", reviewReason: "column unclear" })];
+        const [row] = pivotRecords(records, ids(records)).rows;
+
+        assert.equal(row.confidence, "Low");
+        assert.equal(row.reviewReason, "column unclear");
+    });
+});
@@ -0,0 +1,74 @@
+import { AccountMapping, BoundingBox, CleanRecord, Period } from "./schema";
+import { comparePeriods, periodKey } from "./normalization";
+
+/**
+ * Pivot: one statement's records as line items down and periods across,
+ * the shape of the review grid and the Excel statement sheets.
+ */
+
+// One line item of a statement with its value in each period, as shown in the table
+export interface PivotRow extends Pick<CleanRecord, "category" | "subCategory" | "level" | "lineItem" | "confidence" | "unit" | "page" | "reviewReason" | "labelBox"> {
+    values: Record<string, number | null>; // period key -> value; missing when the period does not print the row
+    ids: Record<string, number>;           // period key -> record ID (index in data.records), for corrections
+    document: string | null;               // merged series: the report the row's boxes are on
+    account: AccountMapping | null;
+    valueBoxes: BoundingBox[];
+}
+
+/**
+ * Groups records into statement rows, in order of first appearance. A line item is one row across periods;
+ * the n-th "Others" under a heading is kept apart from the (n+1)-th.
+ */
+export function statementRows(records: CleanRecord[]): CleanRecord[][] {
+    const rows = new Map<string, CleanRecord[]>();
+    const seen = new Map<string, number>();
+    records.forEach(r => {
+        const line = `${r.basis}|${r.category}|${r.subCategory}|${r.lineItem}`;
+        const base = `${line}|${periodKey(r.period)}`;
+        const occurrence = seen.get(base) ?? 0;
+        seen.set(base, occurrence + 1);
+
+        const key = `${line}#${occurrence}`;
+        rows.set(key, [...(rows.get(key) ?? []), r]);
+    });
+    return Array.from(rows.values());
+}
+
+/**
+ * Pivots one statement for display: its periods (latest first) and a row per line item.
+ * `recordIds` gives each record's ID, so a cell can be corrected.
+ */
+export function pivotRecords(records: CleanRecord[], recordIds: Map<CleanRecord, number>): { headers: Period[]; rows: PivotRow[] } {
+    const headers = Array.from(new Map(records.map(r => [periodKey(r.period), r.period])).values()).sort(comparePeriods);
+
+    const rows = statementRows(records).map(group => {
+        const first = group[0];
+        const row: PivotRow = {
+            category: first.category,
+            subCategory: first.subCategory,
+            level: first.level,
+            lineItem: first.lineItem,
+            confidence: first.confidence,
+            unit: first.unit,
+            page: first.page,
+            reviewReason: null,
+            values: {},
+            ids: {},
+            document: first.document ?? null,
+            account: first.account ?? null,
+            labelBox: first.labelBox,
+            valueBoxes: [],
+        };
+        group.forEach(r => {
+            row.values[periodKey(r.period)] = r.value;
+            // One low-confidence value makes the row low
+            if (r.confidence === "Low") row.confidence = "Low";
+            row.reviewReason = row.reviewReason ?? r.reviewReason;
+            row.ids[periodKey(r.period)] = recordIds.get(r)!;
+            if (r.valueBox && (r.document ?? null) === row.document) row.valueBoxes.push(r.valueBox);
+        });
+        return row;
+    });
+
+    return { headers, rows };
+}
@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CleanExtraction } from "./schema";
+import { exportExtraction } from "./export";
+import { applyCorrections, createCorrection, NewCorrection } from "./review";
+import { FY2023_24, FY2024_25, makeExtraction, makeRecord } from "./test-helpers";
+
+const AT = new Date("2025-05-01T10:00:00Z");
+
+// Revenue and other income for FY2024-25, as extracted
+const extracted = () => makeExtraction([
+    makeRecord({ lineItem: "Revenue from operations", value: 1000, confidence: "Low", reviewReason: "column unclear" }),
+    makeRecord({ lineItem: "Other incme", value: 50, rowIndex: 1 }),
+]);
+
+const corrected = (extraction: CleanExtraction, ...edits: NewCorrection[]) =>
+    ({ ...extraction, corrections: edits.map(edit => createCorrection(edit, AT)) });
+
+describe("applyCorrections", () => {
+    it("applies value, label, category and period edits oldest first", () => {
+        const reviewed = applyCorrections(corrected(extracted(),
+            { recordIds: [0], field: "value", from: 1000, to: 1010, reviewer: "asha" },
+            { recordIds: [0], field: "value", from: 1010, to: 1001, reviewer: "ravi" },
+            { recordIds: [1], field: "lineItem", from: "Other incme", to: "Other income", reviewer: "asha" },
+            { recordIds: [1], field: "category", from: "Revenue", to: "Other", reviewer: "asha" },
+            { recordIds: [1], field: "period", from: FY2024_25, to: FY2023_24, reviewer: "asha" },
+        ));
+        const [revenue, other] = reviewed.records;
+
+        assert.equal(revenue.value, 1001);
+        assert.deepEqual([other.lineItem, other.category, other.period.label, other.year], ["Other income", "Other", "FY2023-24", "2024"]);
+        assert.deepEqual(reviewed.periodsDetected.map(p => p.label), ["FY2024-25", "FY2023-24"]);
+    });
+
+    it("counts a reviewed record as High confidence with nothing left to review", () => {
+        const [revenue] = applyCorrections(corrected(extracted(),
+            { recordIds: [0], field: "value", from: 1000, to: 1000.5, reviewer: "asha" },
+        )).records;
+
+        assert.deepEqual([revenue.confidence, revenue.reviewReason], ["High", null]);
+    });
+
+    it("keeps the extracted records and every event's original value", () => {
+        const extraction = corrected(extracted(),
+            { recordIds: [0], field: "value", from: 1000, to: 1010, reviewer: "asha" },
+        );
+        const reviewed = applyCorrections(extraction);
+
+        assert.equal(extraction.records[0].value, 1000);
+        assert.deepEqual(reviewed.corrections?.map(c => [c.from, c.to, c.reviewer, c.at]), [[1000, 1010, "asha", AT.toISOString()]]);
+    });
+
+    it("exports the corrected data, and lists the corrections only when asked", () => {
+        const extraction = corrected(extracted(),
+            { recordIds: [0], field: "value", from: 1000, to: 1010, reviewer: "asha" },
+        );
+
+        const json = JSON.parse(exportExtraction(extraction, "json") as string);
+        assert.equal(json.records[0].value, 1010);
+        assert.equal(json.corrections, undefined);
+
+        const withTrail = JSON.parse(exportExtraction(extraction, "json", { includeCorrections: true }) as string);
+        assert.deepEqual(withTrail.corrections.map((c: { from: number }) => c.from), [1000]);
+        assert.match(exportExtraction(extraction, "csv") as string, /,1010,/);
+    });
+});
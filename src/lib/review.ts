@@ -0,0 +1,73 @@
+import { CleanExtraction, CleanRecord, Correction } from "./schema";
+import { comparePeriods, normalizeFiscalYear, periodKey } from "./normalization";
+import { validateExtraction } from "./validation";
+
+/**
+ * Review Stage: analysts' corrections (values, labels, categories, periods, standard accounts).
+ * Deterministic. No AI.
+ *
+ * Records are never edited in place: each correction is an event (before, after, reviewer, time)
+ * replayed on top of the extracted records, so every number can be traced back to what was read.
+ */
+
+// Omits per variant, so `field` still decides the type of `from` and `to`
+export type CorrectionInput<K extends keyof Correction> = Correction extends infer C ? C extends Correction ? Omit<C, K> : never : never;
+
+export type NewCorrection = CorrectionInput<"id" | "at">;
+
+export function createCorrection(input: NewCorrection, at = new Date()): Correction {
+    return { ...input, id: crypto.randomUUID(), at: at.toISOString() };
+}
+
+function correctRecord(record: CleanRecord, correction: Correction): CleanRecord {
+    const reviewed = { ...record, confidence: "High" as const, reviewReason: null };
+
+    switch (correction.field) {
+        case "value":
+            return { ...reviewed, value: correction.to };
+        case "lineItem":
+            return { ...reviewed, lineItem: correction.to };
+        case "category":
+            return { ...reviewed, category: correction.to };
+        case "period":
+            return { ...reviewed, period: correction.to, year: normalizeFiscalYear(correction.to.fiscalYear)?.year ?? record.year };
+        case "account": // null: the row has no standard account
+            return { ...reviewed, account: correction.to === null ? null : { id: correction.to, score: 1, source: "override" } };
+    }
+}
+
+/**
+ * The extraction as reviewed: corrections applied oldest first, then the arithmetic
+ * cross-checks re-run on the corrected numbers. Reviewed records count as High confidence.
+ */
+export function applyCorrections<T extends CleanExtraction>(extraction: T): T {
+    const corrections = extraction.corrections ?? [];
+    if (corrections.length === 0) return extraction;
+
+    const records = [...extraction.records];
+    corrections.forEach(c => c.recordIds.forEach(id => {
+        if (records[id]) records[id] = correctRecord(records[id], c);
+    }));
+
+    // Only the discrepancies: validation would downgrade the extracted records a second time
+    const { discrepancies } = validateExtraction({ ...extraction, records });
+
+    // Period edits move records between columns
+    if (!corrections.some(c => c.field === "period")) return { ...extraction, records, discrepancies };
+
+    return {
+        ...extraction,
+        records,
+        discrepancies,
+        yearsDetected: Array.from(new Set(records.map(r => r.year))).sort(),
+        periodsDetected: Array.from(new Map(records.map(r => [periodKey(r.period), r.period])).values()).sort(comparePeriods),
+    };
+}
+
+// A correction's before/after value for display: "1,234", "FY2023-24", "—"
+export function formatCorrectionValue(value: Correction["from"]): string {
+    if (value === null) return "—";
+    if (typeof value === "number") return value.toLocaleString();
+    if (typeof value === "string") return value;
+    return value.label;
+}
@@ -0,0 +1,121 @@
+import { PageDetection, StatementType, TableClassification } from "./schema";
+import { normalizeCategory, parsePeriodHeader } from "./normalization";
+import { layoutEngine, GridColumn, GridRow, NUMERIC_TEXT } from "./layout-engine";
+import { TextItem } from "./pdf-processor";
+
+/**
+ * Rule-based detection and classification: the pipeline's "deterministic" mode.
+ * Deterministic. No AI. Nothing leaves the server.
+ *
+ * - Pages: statement titles in the text above the first row of numbers.
+ * - Columns: periods read from the merged header labels (LayoutEngine.labelColumns).
+ * - Rows: the category keyword dictionary (normalizeCategory), else the parent heading's category.
+ * Whatever the rules cannot decide is returned as a review reason instead of a guess.
+ */
+
+// Titles, most specific first ("Statement of Cash Flows" before a bare "Statement")
+const STATEMENT_TITLES: [RegExp, StatementType][] = [
+    [/cash\s*flows?/i, "cash_flow"],
+    [/balance\s*sheet|assets\s+and\s+liabilities|financial\s+position/i, "balance_sheet"],
+    [/profit\s*(and|&)\s*loss|income\s+statement|statement\s+of\s+operations|financial\s+results/i, "income_statement"],
+];
+
+// Fewer rows of numbers than this is a note or a summary box, not a statement
+const MIN_DATA_ROWS = 3;
+const CONFIDENT_DATA_ROWS = 8;
+
+// Share of rows the dictionary may leave unresolved before the table counts as not understood
+const MAX_REVIEW_SHARE = 0.25;
+
+const hasNumbers = (row: GridRow) => row.cells.some(c => NUMERIC_TEXT.test(c.text.trim()));
+
+/**
+ * Detects a statement on one page from its text layer. Returns null when the page
+ * has no statement title or too few rows of numbers.
+ */
+export function detectStatementByRules(pageText: TextItem[], page: number): PageDetection | null {
+    if (pageText.length === 0) return null; // scanned page: no text layer to read
+
+    const { rows, headers } = layoutEngine.buildGrid(pageText);
+    const dataRows = rows.filter(r => r.cells.length >= 2 && hasNumbers(r)).length;
+    if (dataRows < MIN_DATA_ROWS) return null;
+
+    // Title block: everything above the first row of numbers
+    const title = layoutEngine.headerRows(rows, headers).map(r => r.cells.map(c => c.text).join(" ")).join(" ");
+    const tableType = STATEMENT_TITLES.find(([pattern]) => pattern.test(title))?.[1];
+    if (!tableType) return null;
+
+    return { page, hasTable: true, tableType, confidence: dataRows >= CONFIDENT_DATA_ROWS ? "high" : "medium" };
+}
+
+export interface RuleClassification {
+    classification: TableClassification;
+    review: Map<number, string>;       // grid row index -> why an analyst should check it
+    columnReview: Map<number, string>; // grid column index -> why its values need a check
+    confident: boolean;                // false: no period columns, or too many rows left for review
+    reason?: string;                   // why the table is not confidently understood
+}
+
+/**
+ * Classifies the grid's columns and rows without an LLM.
+ */
+export function classifyTableByRules(gridRows: GridRow[], gridColumns: GridColumn[], statementType: StatementType): RuleClassification {
+    // Columns: only headers that name a date or year are periods
+    const columns: TableClassification["columns"] = [];
+    const columnReview = new Map<number, string>();
+
+    gridColumns.forEach((column, index) => {
+        const header = column.align === "right" && column.label ? parsePeriodHeader(column.label) : null;
+        if (!header) return;
+
+        // "31.03.2025" alone: a balance sheet is "as at" a date; elsewhere assume a year but say so
+        if (!header.type && statementType !== "balance_sheet") {
+            columnReview.set(index, `Header "${column.label}" does not say the period length; assumed a full year`);
+        }
+
+        columns.push({
+            index,
+            type: header.type ?? "year",
+            year: header.endDate ?? column.label,
+            endDate: header.endDate ?? undefined,
+            audited: header.audited,
+            label: column.label,
+        });
+    });
+
+    // Rows: keyword dictionary, else inherit from the parent heading
+    const rows: TableClassification["rows"] = [];
+    const review = new Map<number, string>();
+    const periodIndexes = new Set(columns.map(c => c.index));
+    const categoryOf = new Map<number, TableClassification["rows"][number]["category"]>();
+    const bodyStart = layoutEngine.headerRows(gridRows, gridColumns).length;
+
+    gridRows.forEach((row, index) => {
+        if (index < bodyStart) return;
+
+        const label = row.cells[0];
+        if (!label || NUMERIC_TEXT.test(label.text.trim())) return;
+
+        const matched = normalizeCategory(label.text, statementType);
+        const inherited = row.parentIndex != null ? categoryOf.get(row.parentIndex) : undefined;
+        const category = matched !== "Other" ? matched : (inherited ?? "Other");
+        categoryOf.set(index, category);
+
+        // Headings carry no values; only rows with numbers in a period column become records
+        if (!row.cells.some(c => c.colIndex !== undefined && periodIndexes.has(c.colIndex))) return;
+
+        rows.push({ index, category });
+        if (category === "Other") review.set(index, "No category rule matched this line item");
+    });
+
+    if (columns.length === 0) {
+        return { classification: { columns, rows }, review, columnReview, confident: false, reason: "no header names a period" };
+    }
+
+    const unresolved = rows.filter(r => r.category === "Other").length;
+    if (rows.length > 0 && unresolved / rows.length > MAX_REVIEW_SHARE) {
+        return { classification: { columns, rows }, review, columnReview, confident: false, reason: `${unresolved} of ${rows.length} rows matched no category rule` };
+    }
+
+    return { classification: { columns, rows }, review, columnReview, confident: true };
+}
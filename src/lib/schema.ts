@@ -1,6 +1,95 @@
 import { z } from "zod";
 
+// 0. Statement Taxonomies
+export const StatementTypeSchema = z.enum(["income_statement", "balance_sheet", "cash_flow"]);
+
+// Every category any statement can use. Which ones apply depends on the statement (see below).
+export const CategorySchema = z.enum([
+    "Revenue", "Expenses", "Profit",                // income_statement
+    "Assets", "Liabilities", "Equity",              // balance_sheet
+    "Operating", "Investing", "Financing",          // cash_flow
+    "Other"
+]);
+
+export type StatementType = z.infer<typeof StatementTypeSchema>;
+export type Category = z.infer<typeof CategorySchema>;
+
+export const STATEMENT_CATEGORIES: Record<StatementType, readonly Category[]> = {
+    income_statement: ["Revenue", "Expenses", "Profit", "Other"],
+    balance_sheet: ["Assets", "Liabilities", "Equity", "Other"],
+    cash_flow: ["Operating", "Investing", "Financing", "Other"],
+};
+
+export const STATEMENT_LABELS: Record<StatementType, string> = {
+    income_statement: "Income Statement",
+    balance_sheet: "Balance Sheet",
+    cash_flow: "Cash Flow Statement",
+};
+
+// 0b. Reporting Periods
+export const PeriodTypeSchema = z.enum(["quarter", "half_year", "nine_months", "year"]);
+
+const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/); // YYYY-MM-DD
+
+export const PeriodSchema = z.object({
+    type: PeriodTypeSchema,
+    startDate: IsoDateSchema.nullable(),
+    endDate: IsoDateSchema.nullable(),  // null when only the year is known
+    audited: z.boolean().nullable(),    // null when the header does not say
+    label: z.string(),                  // display label, e.g. "9M Dec 2024", "FY2024-25"
+    fiscalYear: z.string(),             // fiscal year the period falls in, e.g. "FY2024-25"
+});
+
+export type PeriodType = z.infer<typeof PeriodTypeSchema>;
+export type Period = z.infer<typeof PeriodSchema>;
+
+// 0c. Units & Scale
+export const ScaleSchema = z.enum(["units", "thousands", "lakhs", "millions", "crores", "billions"]);
+
+// What a value measures: only "amount" rows follow the table's scale caption
+export const MeasureSchema = z.enum(["amount", "per_share", "percentage"]);
+
+export type Scale = z.infer<typeof ScaleSchema>;
+export type Measure = z.infer<typeof MeasureSchema>;
+
+// 0d. Reporting Basis: Indian filings print Standalone and Consolidated results side by side
+export const BasisSchema = z.enum(["standalone", "consolidated"]);
+
+export type Basis = z.infer<typeof BasisSchema>;
+
+export const BASIS_LABELS: Record<Basis, string> = {
+    standalone: "Standalone",
+    consolidated: "Consolidated",
+};
+
+// 0e. Provenance: where a cell sits on its page, in PDF points with the origin bottom-left (as pdf.js reports text)
+export const BoundingBoxSchema = z.object({
+    page: z.number().int().positive(),
+    x: z.number(),      // left edge
+    y: z.number(),      // text baseline
+    width: z.number(),
+    height: z.number(), // font size: the box spans baseline to baseline + height
+});
+
+export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
+
+// 0f. Chart of Accounts: the standard line item a row was mapped to (see taxonomy.ts)
+export const AccountMappingSchema = z.object({
+    id: z.string(),                  // taxonomy ID, e.g. "is.revenue_from_operations"
+    score: z.number().min(0).max(1), // how closely the label matched; 1 for an analyst's override
+    source: z.enum(["label", "llm", "override"]), // printed label, the LLM's normalized name, or an analyst
+});
+
+export type AccountMapping = z.infer<typeof AccountMappingSchema>;
+
 // 1. Raw Schema (LLM Output - Loose)
+const RawPeriodSchema = z.object({
+    type: z.string().optional(),
+    endDate: z.string().optional(),     // as seen, e.g. "31.12.2024"
+    audited: z.boolean().nullable().optional(),
+    label: z.string().optional(),       // header text, e.g. "Quarter ended 31.12.2024"
+});
+
 export const RawRecordSchema = z.object({
     category: z.string().optional(),
     subCategory: z.string().nullable().optional(),
@@ -8,8 +97,20 @@ export const RawRecordSchema = z.object({
     year: z.string(),   // allow anything initially
     value: z.any(),     // allow string/number
     unit: z.string().nullable().optional(),
+    currency: z.string().nullable().optional(), // from the table caption, e.g. "INR"
+    scale: ScaleSchema.nullable().optional(),   // from the table caption, e.g. "crores"
     confidence: z.string().optional(),
     sourceSnippet: z.string().optional(),
+    page: z.number().int().positive().nullable().optional(), // 1-based page the record came from
+    rowIndex: z.number().int().nonnegative().nullable().optional(), // row position in the table grid
+    labelBox: BoundingBoxSchema.nullable().optional(),
+    valueBox: BoundingBoxSchema.nullable().optional(),
+    level: z.number().int().nonnegative().optional(), // depth in the line-item tree
+    statementType: StatementTypeSchema.optional(),
+    basis: BasisSchema.nullable().optional(),
+    period: RawPeriodSchema.optional(),
+    reviewReason: z.string().nullable().optional(),
+    normalizedName: z.string().optional(), // the LLM's standard name for the line item
 });
 
 export const RawExtractionSchema = z.object({
@@ -20,26 +121,115 @@ export const RawExtractionSchema = z.object({
 
 // 2. Clean Schema (DB Ready - Strict)
 export const CleanRecordSchema = z.object({
-    category: z.string(),
-    subCategory: z.string().nullable(),
+    statementType: StatementTypeSchema,
+    basis: BasisSchema.nullable(),      // null when the table does not say
+    category: CategorySchema,
+    subCategory: z.string().nullable(), // parent heading of the line item
+    level: z.number().int().nonnegative(), // depth in the line-item tree, 0 = top level
     lineItem: z.string(),
-    year: z.string().regex(/^\d{4}$/),  // ONLY normalized year (YYYY)
+    year: z.string().regex(/^\d{4}$/),  // ONLY normalized fiscal year (YYYY), named by the year it ends in
+    period: PeriodSchema,
     value: z.number().nullable(),
-    unit: z.string().nullable(),
+    unit: z.string().nullable(),        // display unit, e.g. "₹ Crores", "₹ per share", "%"
+    currency: z.string().nullable(),    // ISO code, e.g. "INR"
+    scale: ScaleSchema.nullable(),      // null when no caption was found
+    measure: MeasureSchema,
     confidence: z.enum(["High", "Medium", "Low"]),
     sourceSnippet: z.string(),
+    page: z.number().int().positive().nullable(), // null when the source page is unknown
+    rowIndex: z.number().int().nonnegative().nullable(), // row position in the table grid, for document order
+    reviewReason: z.string().nullable(), // set when the rules could not decide; an analyst should check the row
+    // Label and value cells in the PDF; null when unknown (e.g. extractions saved before boxes were kept)
+    labelBox: BoundingBoxSchema.nullable().default(null),
+    valueBox: BoundingBoxSchema.nullable().default(null),
+    account: AccountMappingSchema.nullable().default(null), // null when no standard account matched
+    document: z.string().optional(), // report the record came from, when several are merged (see merge.ts)
+});
+
+// A raw value normalization could not use, and why
+export const RejectedValueSchema = z.object({
+    lineItem: z.string(),
+    year: z.string(),
+    value: z.string(),  // as printed
+    reason: z.string(), // e.g. "ambiguous digit grouping in \"1,2345\""
+    page: z.number().int().positive().nullable(),
+});
+
+// A failed arithmetic cross-check (see validation.ts)
+export const DiscrepancySchema = z.object({
+    check: z.enum(["subtotal", "identity"]),
+    description: z.string(),
+    statementType: StatementTypeSchema,
+    basis: BasisSchema.nullable(),
+    period: z.string(),             // period label
+    expected: z.number(),
+    actual: z.number(),
+    difference: z.number(),         // actual - expected
+    tolerance: z.number(),
+    lineItems: z.array(z.string()), // rows involved (total/result first)
+});
+
+// A reviewer's edit, kept as an event: records stay as extracted and corrections are replayed on top (see review.ts)
+export const CorrectionFieldSchema = z.enum(["value", "lineItem", "category", "period", "account"]);
+
+const CorrectionBaseSchema = z.object({
+    id: z.string(),
+    recordIds: z.array(z.number().int().nonnegative()), // indexes into `records`; a label edit covers a whole row
+    reviewer: z.string().min(1),
+    at: z.string(),              // ISO 8601
+});
+
+// `from` (before this edit) and `to` have the type of the field edited
+const correctionOf = <F extends CorrectionField, T extends z.ZodType>(field: F, value: T) =>
+    CorrectionBaseSchema.extend({ field: z.literal(field), from: value, to: value });
+
+export const CorrectionSchema = z.discriminatedUnion("field", [
+    correctionOf("value", z.number().nullable()),
+    correctionOf("lineItem", z.string()),
+    correctionOf("category", CategorySchema),
+    correctionOf("period", PeriodSchema),
+    correctionOf("account", z.string().nullable()), // account id; null: no standard account
+]);
+
+// One LLM stage call and where its answer came from (see llm/cache.ts)
+export const StageLogSchema = z.object({
+    stage: z.enum(["detection", "classification", "extraction"]),
+    tag: z.string(),                          // e.g. "DETECTION p3"
+    cache: z.enum(["hit", "miss", "off"]),
+    ms: z.number(),
+});
+
+// How a result was produced
+export const ExtractionMetadataSchema = z.object({
+    provider: z.string().nullable(), // null: no LLM was called
+    model: z.string().nullable(),
+    mode: z.enum(["llm", "deterministic"]),
+    promptVersion: z.string(),
+    cache: z.object({ hits: z.number().int(), misses: z.number().int() }),
+    stages: z.array(StageLogSchema),
 });
 
 export const CleanExtractionSchema = z.object({
     records: z.array(CleanRecordSchema),
     yearsDetected: z.array(z.string()),
+    periodsDetected: z.array(PeriodSchema),
+    rejectedValues: z.array(RejectedValueSchema),
+    discrepancies: z.array(DiscrepancySchema),
     notes: z.string().optional(),
+    metadata: ExtractionMetadataSchema.optional(),
+    corrections: z.array(CorrectionSchema).optional(), // oldest first
 });
 
 export type RawRecord = z.infer<typeof RawRecordSchema>;
 export type RawExtraction = z.infer<typeof RawExtractionSchema>;
 export type CleanRecord = z.infer<typeof CleanRecordSchema>;
+export type RejectedValue = z.infer<typeof RejectedValueSchema>;
+export type Discrepancy = z.infer<typeof DiscrepancySchema>;
 export type CleanExtraction = z.infer<typeof CleanExtractionSchema>;
+export type StageLog = z.infer<typeof StageLogSchema>;
+export type ExtractionMetadata = z.infer<typeof ExtractionMetadataSchema>;
+export type CorrectionField = z.infer<typeof CorrectionFieldSchema>;
+export type Correction = z.infer<typeof CorrectionSchema>;
 
 // --- 3. Multi-Stage Pipeline Schemas ---
 
@@ -47,9 +237,19 @@ export type CleanExtraction = z.infer<typeof CleanExtractionSchema>;
 export const TableDetectionSchema = z.object({
     hasTable: z.boolean(),
     tableType: z.enum(["income_statement", "balance_sheet", "cash_flow", "other", "unknown"]),
+    basis: BasisSchema.nullable().optional(), // from the page title
     confidence: z.enum(["high", "medium", "low"])
 });
 
+export type TableDetection = z.infer<typeof TableDetectionSchema>;
+
+// Stage 1b: Detection result for one page (pipeline runs detection page by page)
+export const PageDetectionSchema = TableDetectionSchema.extend({
+    page: z.number().int().positive()
+});
+
+export type PageDetection = z.infer<typeof PageDetectionSchema>;
+
 // Stage 2: Structure (Raw Matrix)
 export const TableStructureSchema = z.object({
     columns: z.array(z.object({
@@ -69,12 +269,84 @@ export const TableStructureSchema = z.object({
 export const TableClassificationSchema = z.object({
     columns: z.array(z.object({
         index: z.number(),
-        type: z.enum(["quarter", "nine_months", "year", "unknown"]),
-        year: z.string().optional() // Normalized YYYY
+        type: z.enum(["quarter", "half_year", "nine_months", "year", "unknown"]),
+        year: z.string().optional(), // Normalized YYYY
+        endDate: z.string().optional(), // Period end as printed, e.g. "31.12.2024"
+        audited: z.boolean().nullable().optional(),
+        label: z.string().optional() // Full header text of the column
     })),
     rows: z.array(z.object({
         index: z.number(),
-        category: z.enum(["Revenue", "Expenses", "Profit", "Other"]),
+        category: CategorySchema,
         normalizedName: z.string().optional()
     }))
 });
+
+export type TableClassification = z.infer<typeof TableClassificationSchema>;
+export type ClassifiedColumn = TableClassification["columns"][number];
+
+// --- 4. Job Progress ---
+
+// Pipeline stages in run order (see pipeline.ts)
+export const PipelineStageSchema = z.enum(["detection", "layout", "classification", "normalization", "validation"]);
+
+export const PIPELINE_STAGE_LABELS: Record<z.infer<typeof PipelineStageSchema>, string> = {
+    detection: "Detecting statement pages",
+    layout: "Building layout grid",
+    classification: "Classifying columns and rows",
+    normalization: "Normalizing values",
+    validation: "Cross-checking totals",
+};
+
+// One step of a running pipeline, streamed to the UI
+export const ProgressEventSchema = z.object({
+    stage: PipelineStageSchema,
+    status: z.enum(["running", "done"]),
+    message: z.string(),
+    page: z.number().int().positive().optional(), // page being worked on
+    current: z.number().int().optional(),         // step within the stage, e.g. page 3 ...
+    total: z.number().int().optional(),           // ... of 5
+});
+
+export const JobStatusSchema = z.enum(["queued", "running", "done", "failed"]);
+
+export type PipelineStage = z.infer<typeof PipelineStageSchema>;
+export type ProgressEvent = z.infer<typeof ProgressEventSchema>;
+export type JobStatus = z.infer<typeof JobStatusSchema>;
+
+// --- 5. Multi-Document Merge ---
+
+// One report's figure for a line item and period, with where it was printed
+export const FigureSourceSchema = z.object({
+    document: z.string(),
+    value: z.number().nullable(),
+    unit: z.string().nullable(),
+    page: z.number().int().positive().nullable(),
+    valueBox: BoundingBoxSchema.nullable(),
+    sourceSnippet: z.string(),
+});
+
+// A later report printing a different figure for a period an earlier report already covered
+export const RestatementSchema = z.object({
+    statementType: StatementTypeSchema,
+    basis: BasisSchema.nullable(),
+    lineItem: z.string(),  // as the later report prints it
+    period: PeriodSchema,
+    original: FigureSourceSchema,
+    restated: FigureSourceSchema,
+});
+
+export const MergedDocumentSchema = z.object({
+    name: z.string(),
+    periods: z.array(z.string()), // period labels the report covers, latest first
+});
+
+export const MergedExtractionSchema = CleanExtractionSchema.extend({
+    documents: z.array(MergedDocumentSchema), // oldest first
+    restatements: z.array(RestatementSchema),
+});
+
+export type FigureSource = z.infer<typeof FigureSourceSchema>;
+export type Restatement = z.infer<typeof RestatementSchema>;
+export type MergedDocument = z.infer<typeof MergedDocumentSchema>;
+export type MergedExtraction = z.infer<typeof MergedExtractionSchema>;
@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { StatementType } from "./schema";
+import { AccountInput, AccountSection, canonicalLineItem, createAccountMapper, matchAccount, MIN_MATCH_SCORE } from "./taxonomy";
+
+const idOf = (label: string, statementType: StatementType, section?: AccountSection) =>
+    matchAccount(label, statementType, section)?.account.id ?? null;
+
+describe("canonicalLineItem", () => {
+    it("drops note references, numbering and punctuation", () => {
+        assert.equal(canonicalLineItem("(a) Revenue from Operations (Refer Note 23)"), "revenue from operations");
+        assert.equal(canonicalLineItem("3. Cost of materials consumed Note 24"), "cost of materials consumed");
+        assert.equal(canonicalLineItem("Depreciation & amortisation"), "depreciation and amortisation");
+    });
+});
+
+describe("matchAccount", () => {
+    it("scores the account name and its synonyms as exact matches", () => {
+        assert.equal(matchAccount("Revenue from operations", "income_statement")?.score, 1);
+        assert.equal(idOf("Net sales", "income_statement"), "is.revenue_from_operations");
+        assert.equal(idOf("Finance costs", "income_statement"), "is.finance_costs");
+        assert.equal(idOf("Interest and finance charges", "income_statement"), "is.finance_costs");
+    });
+
+    it("folds plurals, spelling and filler words", () => {
+        assert.equal(matchAccount("Employee Benefits Expenses", "income_statement")?.score, 1);
+        assert.equal(idOf("Depreciation and amortization expense", "income_statement"), "is.depreciation_and_amortisation");
+        assert.equal(idOf("Profit for the year", "income_statement"), "is.profit_for_the_period");
+    });
+
+    it("gives partial matches a lower score", () => {
+        const match = matchAccount("Other expenses (net)", "income_statement");
+        assert.equal(match?.account.id, "is.other_expenses");
+        assert.ok(match!.score < 1 && match!.score >= MIN_MATCH_SCORE);
+    });
+
+    it("leaves labels that match nothing unmapped", () => {
+        assert.equal(matchAccount("Corporate social responsibility", "income_statement"), null);
+    });
+
+    it("only looks at accounts of the statement", () => {
+        assert.equal(idOf("Inventories", "balance_sheet", "current"), "bs.inventories");
+        assert.equal(idOf("Inventories", "cash_flow"), null);
+    });
+
+    it("tells current from non-current by the heading, and scores lower without one", () => {
+        assert.equal(idOf("Borrowings", "balance_sheet", "non_current"), "bs.borrowings_non_current");
+        assert.equal(idOf("Borrowings", "balance_sheet", "current"), "bs.borrowings_current");
+        assert.equal(matchAccount("Borrowings", "balance_sheet", "current")?.score, 1);
+        assert.ok(matchAccount("Borrowings", "balance_sheet")!.score < 1);
+    });
+});
+
+describe("createAccountMapper", () => {
+    const row = (lineItem: string, subCategory: string | null, category: AccountInput["category"] = "Liabilities"): AccountInput =>
+        ({ statementType: "balance_sheet", basis: "standalone", category, subCategory, lineItem });
+
+    it("follows the heading in force down a balance sheet", () => {
+        const map = createAccountMapper();
+        const ids = [
+            row("Borrowings", "Non-current liabilities"),
+            row("Total non-current liabilities", "Non-current liabilities"),
+            row("Borrowings", null),
+            row("Trade payables", "Current liabilities"),
+        ].map(r => map(r)?.id);
+        assert.deepEqual(ids, ["bs.borrowings_non_current", "bs.total_non_current_liabilities", "bs.borrowings_current", "bs.trade_payables"]);
+    });
+
+    it("prefers the model's standard name only when it scores higher", () => {
+        const map = createAccountMapper();
+        const record = { statementType: "income_statement", basis: null, category: "Revenue", subCategory: null } as const;
+        assert.deepEqual(map({ ...record, lineItem: "Sales (net of GST)", normalizedName: "Revenue from operations" }),
+            { id: "is.revenue_from_operations", score: 1, source: "llm" });
+        assert.deepEqual(map({ ...record, lineItem: "Other income", normalizedName: "Other income" }),
+            { id: "is.other_income", score: 1, source: "label" });
+    });
+});
@@ -0,0 +1,270 @@
+import { AccountMapping, Basis, Category, StatementType } from "./schema";
+
+/**
+ * Taxonomy Stage: line items -> standard chart-of-accounts IDs.
+ * Deterministic. No AI.
+ *
+ * Companies print the same line under different names ("Revenue from operations", "Income from
+ * operations", "Net sales"). Each row is matched to one standard account by its label, so figures
+ * line up across companies and years. Synonyms cover Schedule III (Ind AS) and IAS 1 (IFRS) wording.
+ */
+
+export type AccountSection = "current" | "non_current";
+
+export interface Account {
+    id: string;                 // stable; stored with records and corrections
+    name: string;               // standard name, shown in the UI and exports
+    statementType: StatementType;
+    section?: AccountSection;   // balance sheet lines printed under both headings ("Borrowings")
+    synonyms: string[];         // other wordings, matched after canonicalLineItem
+}
+
+const is = (id: string, name: string, ...synonyms: string[]): Account =>
+    ({ id: `is.${id}`, name, statementType: "income_statement", synonyms });
+const bs = (id: string, name: string, section: AccountSection | undefined, ...synonyms: string[]): Account =>
+    ({ id: `bs.${id}`, name, statementType: "balance_sheet", section, synonyms });
+const cf = (id: string, name: string, ...synonyms: string[]): Account =>
+    ({ id: `cf.${id}`, name, statementType: "cash_flow", synonyms });
+
+// Add wordings to `synonyms`; never change an ID once records carry it
+export const CHART_OF_ACCOUNTS: Account[] = [
+    // Statement of Profit and Loss (Ind AS) / Statement of Profit or Loss (IFRS)
+    is("revenue_from_operations", "Revenue from operations",
+        "income from operations", "total income from operations", "total revenue from operations", "net revenue from operations",
+        "revenue", "revenue from contracts with customers", "net sales", "sales", "sales and services", "turnover", "net turnover"),
+    is("other_income", "Other income", "other non operating income", "other gains and losses", "other gains losses net"),
+    is("total_income", "Total income", "total revenue"),
+    is("cost_of_materials_consumed", "Cost of materials consumed",
+        "cost of raw materials consumed", "raw materials consumed", "consumption of raw materials", "materials consumed"),
+    is("purchases_of_stock_in_trade", "Purchases of stock-in-trade", "purchase of stock in trade", "purchases of traded goods", "purchase of traded goods"),
+    is("changes_in_inventories", "Changes in inventories",
+        "changes in inventories of finished goods work in progress and stock in trade", "changes in inventories of finished goods and work in progress",
+        "increase decrease in inventories", "decrease increase in inventories"),
+    is("cost_of_sales", "Cost of sales", "cost of goods sold", "cost of revenue", "cost of revenues"),
+    is("employee_benefits_expense", "Employee benefits expense",
+        "employee benefit expense", "employee benefits expenses", "employee costs", "employee cost", "staff costs", "personnel expenses", "salaries and wages"),
+    is("finance_costs", "Finance costs", "finance cost", "finance charges", "interest and finance charges", "interest expense", "borrowing costs"),
+    is("depreciation_and_amortisation", "Depreciation and amortisation expense",
+        "depreciation and amortisation", "depreciation amortisation and impairment", "depreciation amortisation and impairment expense",
+        "depreciation and amortisation expenses", "depreciation"),
+    is("distribution_costs", "Distribution costs", "selling and distribution expenses", "selling expenses", "selling and marketing expenses"),
+    is("administrative_expenses", "Administrative expenses", "general and administrative expenses", "administration expenses"),
+    is("other_expenses", "Other expenses", "other operating expenses", "other expenditure"),
+    is("total_expenses", "Total expenses", "total expenditure"),
+    is("profit_before_exceptional_items_and_tax", "Profit before exceptional items and tax",
+        "profit loss before exceptional items and tax", "profit before exceptional items"),
+    is("exceptional_items", "Exceptional items", "exceptional items net", "exceptional gain loss", "exceptional items gain loss"),
+    is("share_of_associates", "Share of profit of associates and joint ventures",
+        "share of profit loss of associates and joint ventures", "share of net profit of associates and joint ventures accounted for using the equity method"),
+    is("profit_before_tax", "Profit before tax", "profit loss before tax", "profit before income tax", "profit before taxation", "pbt"),
+    is("current_tax", "Current tax"),
+    is("deferred_tax", "Deferred tax", "deferred tax charge credit", "deferred tax credit charge"),
+    is("tax_expense", "Tax expense", "total tax expense", "income tax expense", "income tax", "tax expenses", "provision for taxation"),
+    is("profit_for_the_period", "Profit for the period",
+        "profit loss for the period", "net profit for the period", "net profit loss for the period", "net profit", "profit after tax",
+        "profit loss after tax", "pat", "net income"),
+    is("other_comprehensive_income", "Other comprehensive income", "other comprehensive income net of tax", "total other comprehensive income"),
+    is("total_comprehensive_income", "Total comprehensive income", "total comprehensive income for the period", "total comprehensive income loss for the period"),
+    is("paid_up_equity_share_capital", "Paid-up equity share capital", "paid up equity share capital face value"),
+    is("basic_eps", "Basic earnings per share", "basic", "basic eps", "earnings per share basic"),
+    is("diluted_eps", "Diluted earnings per share", "diluted", "diluted eps", "earnings per share diluted"),
+
+    // Balance Sheet (Ind AS) / Statement of Financial Position (IFRS); non-current before current, as printed
+    bs("property_plant_and_equipment", "Property, plant and equipment", "non_current", "fixed assets", "tangible assets"),
+    bs("capital_work_in_progress", "Capital work-in-progress", "non_current", "capital work in progress"),
+    bs("right_of_use_assets", "Right-of-use assets", "non_current", "right of use asset"),
+    bs("investment_property", "Investment property", "non_current"),
+    bs("goodwill", "Goodwill", "non_current"),
+    bs("other_intangible_assets", "Other intangible assets", "non_current", "intangible assets", "intangible assets under development"),
+    bs("investments_non_current", "Investments (non-current)", "non_current", "investments", "non current investments"),
+    bs("loans_non_current", "Loans (non-current)", "non_current", "loans"),
+    bs("other_financial_assets_non_current", "Other financial assets (non-current)", "non_current", "other financial assets"),
+    bs("deferred_tax_assets", "Deferred tax assets", "non_current", "deferred tax assets net"),
+    bs("other_non_current_assets", "Other non-current assets", "non_current", "other assets"),
+    bs("total_non_current_assets", "Total non-current assets", undefined),
+    bs("inventories", "Inventories", "current"),
+    bs("investments_current", "Investments (current)", "current", "investments", "current investments"),
+    bs("trade_receivables", "Trade receivables", "current",
+        "trade receivables net", "trade and other receivables", "sundry debtors", "debtors", "accounts receivable"),
+    bs("cash_and_cash_equivalents", "Cash and cash equivalents", "current", "cash and cash equivalent", "cash and bank balances"),
+    bs("other_bank_balances", "Bank balances other than cash and cash equivalents", "current", "other bank balances"),
+    bs("loans_current", "Loans (current)", "current", "loans"),
+    bs("other_financial_assets_current", "Other financial assets (current)", "current", "other financial assets"),
+    bs("current_tax_assets", "Current tax assets", "current", "current tax assets net", "income tax assets"),
+    bs("other_current_assets", "Other current assets", "current", "other assets"),
+    bs("total_current_assets", "Total current assets", undefined),
+    bs("total_assets", "Total assets", undefined),
+    bs("equity_share_capital", "Equity share capital", undefined, "share capital", "issued capital"),
+    bs("other_equity", "Other equity", undefined, "reserves and surplus", "other reserves", "retained earnings"),
+    bs("equity_attributable_to_owners", "Equity attributable to owners",
+        undefined, "equity attributable to owners of the company", "equity attributable to owners of the parent", "equity attributable to equity holders of the parent"),
+    bs("non_controlling_interests", "Non-controlling interests", undefined, "non controlling interest", "minority interest"),
+    bs("total_equity", "Total equity", undefined),
+    bs("borrowings_non_current", "Borrowings (non-current)", "non_current", "borrowings", "long term borrowings", "non current borrowings"),
+    bs("lease_liabilities_non_current", "Lease liabilities (non-current)", "non_current", "lease liabilities"),
+    bs("other_financial_liabilities_non_current", "Other financial liabilities (non-current)", "non_current", "other financial liabilities"),
+    bs("provisions_non_current", "Provisions (non-current)", "non_current", "provisions", "long term provisions"),
+    bs("deferred_tax_liabilities", "Deferred tax liabilities", "non_current", "deferred tax liabilities net"),
+    bs("other_non_current_liabilities", "Other non-current liabilities", "non_current", "other liabilities"),
+    bs("total_non_current_liabilities", "Total non-current liabilities", undefined),
+    bs("borrowings_current", "Borrowings (current)", "current", "borrowings", "short term borrowings", "current borrowings"),
+    bs("lease_liabilities_current", "Lease liabilities (current)", "current", "lease liabilities"),
+    bs("trade_payables", "Trade payables", "current", "trade and other payables", "sundry creditors", "creditors", "accounts payable"),
+    bs("other_financial_liabilities_current", "Other financial liabilities (current)", "current", "other financial liabilities"),
+    bs("provisions_current", "Provisions (current)", "current", "provisions", "short term provisions"),
+    bs("current_tax_liabilities", "Current tax liabilities", "current", "current tax liabilities net", "income tax liabilities", "current tax payable"),
+    bs("other_current_liabilities", "Other current liabilities", "current", "other liabilities"),
+    bs("total_current_liabilities", "Total current liabilities", undefined),
+    bs("total_liabilities", "Total liabilities", undefined),
+    bs("total_equity_and_liabilities", "Total equity and liabilities", undefined, "total equity and liability", "total liabilities and equity"),
+
+    // Statement of Cash Flows (Ind AS 7 / IAS 7)
+    cf("profit_before_tax", "Profit before tax", "profit loss before tax", "net profit before tax", "profit before income tax"),
+    cf("depreciation_and_amortisation", "Depreciation and amortisation", "depreciation and amortisation expense", "depreciation amortisation and impairment"),
+    cf("finance_costs", "Finance costs", "finance cost", "interest expense"),
+    cf("interest_income", "Interest income"),
+    cf("operating_profit_before_working_capital_changes", "Operating profit before working capital changes",
+        "operating profit before working capital change", "operating profit before changes in working capital"),
+    cf("cash_generated_from_operations", "Cash generated from operations", "cash generated from used in operations"),
+    cf("income_taxes_paid", "Income taxes paid", "income tax paid", "income taxes paid net of refunds", "income tax paid net of refunds", "taxes paid", "direct taxes paid"),
+    cf("net_cash_from_operating_activities", "Net cash from operating activities",
+        "net cash generated from operating activities", "net cash from used in operating activities", "net cash generated from used in operating activities",
+        "net cash flow from operating activities", "net cash flow from used in operating activities", "net cash inflow from operating activities", "net cash provided by operating activities"),
+    cf("purchase_of_property_plant_and_equipment", "Purchase of property, plant and equipment",
+        "purchase of property plant and equipment", "acquisition of property plant and equipment", "purchase of fixed assets", "capital expenditure"),
+    cf("proceeds_from_sale_of_property_plant_and_equipment", "Proceeds from sale of property, plant and equipment",
+        "proceeds from sale of property plant and equipment", "proceeds from disposal of property plant and equipment", "sale of fixed assets"),
+    cf("net_cash_from_investing_activities", "Net cash used in investing activities",
+        "net cash from investing activities", "net cash from used in investing activities", "net cash used in from investing activities",
+        "net cash flow from used in investing activities"),
+    cf("proceeds_from_borrowings", "Proceeds from borrowings", "proceeds from long term borrowings", "proceeds from non current borrowings"),
+    cf("repayment_of_borrowings", "Repayment of borrowings", "repayment of long term borrowings", "repayment of non current borrowings"),
+    cf("payment_of_lease_liabilities", "Payment of lease liabilities", "repayment of lease liabilities", "principal elements of lease payments"),
+    cf("interest_paid", "Interest paid", "finance costs paid"),
+    cf("dividends_paid", "Dividends paid", "dividend paid", "dividends paid to equity shareholders"),
+    cf("net_cash_from_financing_activities", "Net cash used in financing activities",
+        "net cash from financing activities", "net cash from used in financing activities", "net cash used in from financing activities",
+        "net cash flow from used in financing activities"),
+    cf("net_change_in_cash", "Net increase (decrease) in cash and cash equivalents",
+        "net increase decrease in cash and cash equivalents", "net decrease increase in cash and cash equivalents",
+        "net increase in cash and cash equivalents", "net decrease in cash and cash equivalents", "net change in cash and cash equivalents"),
+    cf("cash_at_beginning", "Cash and cash equivalents at the beginning of the period",
+        "cash and cash equivalents at beginning of the period", "opening cash and cash equivalents"),
+    cf("cash_at_end", "Cash and cash equivalents at the end of the period",
+        "cash and cash equivalents at end of the period", "closing cash and cash equivalents"),
+];
+
+export const ACCOUNTS_BY_ID = new Map(CHART_OF_ACCOUNTS.map(a => [a.id, a]));
+
+/**
+ * Line item label reduced to what identifies it across reports:
+ * "(a) Revenue from Operations (Refer Note 23)" and "Revenue from operations" -> "revenue from operations".
+ */
+export function canonicalLineItem(lineItem: string): string {
+    return lineItem.toLowerCase()
+        .replace(/\((?:refer\s+)?notes?\b[^)]*\)|\b(?:refer\s+)?notes?\s*(?:no\.?\s*)?\d+[a-z]?\b/g, " ") // note references
+        .replace(/^\s*(?:\(?(?:[ivx]+|[a-z]|\d+)\)|\d+\.)\s+/, "")                                         // numbering: "(a)", "ii)", "3."
+        .replace(/&/g, " and ")
+        .replace(/[^a-z0-9%]+/g, " ")
+        .trim();
+}
+
+// Words that do not tell accounts apart: "Profit for the year" is "Profit for the period"
+const FILLER_WORDS = new Set(["the", "of", "a", "an", "for", "on", "to", "year", "period", "quarter", "half"]);
+
+// Words of a label, spelling and plurals folded: "Employee Benefits Expenses (IV)" -> employee, benefit, expense
+function words(text: string): string[] {
+    return canonicalLineItem(text)
+        .replace(/i[sz]ation/g, "isation")
+        .split(" ")
+        .filter(w => w && !FILLER_WORDS.has(w) && !/^[ivx]+$|^[a-z]$/.test(w)) // "(I+II)", "(a)" anywhere
+        .map(w => (w.length > 3 && w.endsWith("s") && !w.endsWith("ss") ? w.slice(0, -1) : w));
+}
+
+// Labels scoring below this stay unmapped rather than guessed
+export const MIN_MATCH_SCORE = 0.75;
+
+// Heading unknown and the label fits the current and the non-current account alike: a weaker match
+const UNKNOWN_SECTION_FACTOR = 0.9;
+
+// Same words: 1. Otherwise the share of words in common (Dice coefficient)
+function similarity(a: string[], b: string[]): number {
+    if (a.join(" ") === b.join(" ")) return 1;
+    const common = a.filter(w => b.includes(w)).length;
+    return a.length + b.length > 0 ? (2 * common) / (a.length + b.length) : 0;
+}
+
+/**
+ * Best standard account for a label, or null when nothing scores MIN_MATCH_SCORE.
+ * `section` ("current" / "non_current") picks between accounts printed under both headings.
+ */
+export function matchAccount(label: string, statementType: StatementType, section?: AccountSection): { account: Account, score: number } | null {
+    const labelWords = words(label);
+    const scored = CHART_OF_ACCOUNTS
+        .filter(a => a.statementType === statementType && !(section && a.section && a.section !== section))
+        .map(account => ({ account, score: Math.max(...[account.name, ...account.synonyms].map(name => similarity(labelWords, words(name)))) }))
+        .sort((a, b) => b.score - a.score); // stable: the first listed wins a tie
+
+    const [best] = scored;
+    if (!best) return null;
+
+    const ambiguous = !section && best.account.section &&
+        scored.some(o => o.score === best.score && o.account.section && o.account.section !== best.account.section);
+    const score = ambiguous ? best.score * UNKNOWN_SECTION_FACTOR : best.score;
+    return score >= MIN_MATCH_SCORE ? { account: best.account, score } : null;
+}
+
+// What the mapper needs of a record, in document order
+export interface AccountInput {
+    statementType: StatementType;
+    basis: Basis | null;
+    category: Category;
+    subCategory: string | null;
+    lineItem: string;
+    normalizedName?: string; // the LLM's standard name for the row, when it gave one
+}
+
+/**
+ * Maps records to accounts one by one, in document order. Balance sheets list non-current items
+ * before current ones (Schedule III, IAS 1), so the heading in force is tracked from row to row:
+ * a "Non-current ..." heading, a "Total non-current ..." row (what follows is current) or a
+ * "Current ..." heading. Each block (assets, equity, liabilities) starts with the heading unknown.
+ */
+export function createAccountMapper() {
+    let block = "";
+    let section: AccountSection | undefined;
+
+    const sectionOf = (record: AccountInput): AccountSection | undefined => {
+        if (record.statementType !== "balance_sheet") return undefined;
+
+        const key = `${record.basis}|${record.category}`;
+        if (key !== block) {
+            block = key;
+            section = undefined;
+        }
+
+        const label = canonicalLineItem(record.lineItem);
+        const heading = canonicalLineItem(`${record.subCategory ?? ""} ${record.lineItem}`);
+        if (/\bnon current\b/.test(heading)) {
+            section = label.startsWith("total") ? "current" : "non_current"; // rows after the total are current
+            return "non_current";
+        }
+        if (/\bcurrent\b/.test(heading)) section = "current";
+        return section;
+    };
+
+    return (record: AccountInput): AccountMapping | null => {
+        const section = sectionOf(record);
+        const byLabel = matchAccount(record.lineItem, record.statementType, section);
+        const byName = record.normalizedName ? matchAccount(record.normalizedName, record.statementType, section) : null;
+
+        // The printed label wins ties: it is what an analyst can check
+        if (byName && byName.score > (byLabel?.score ?? 0)) return { id: byName.account.id, score: round(byName.score), source: "llm" };
+        return byLabel ? { id: byLabel.account.id, score: round(byLabel.score), source: "label" } : null;
+    };
+}
+
+const round = (score: number) => Math.round(score * 100) / 100;
+
+// Accounts an analyst can pick for a row of this statement
+export const accountsFor = (statementType: StatementType) => CHART_OF_ACCOUNTS.filter(a => a.statementType === statementType);
@@ -0,0 +1,65 @@
+import { CleanExtraction, CleanRecord, Period } from "./schema";
+import { comparePeriods, periodKey } from "./normalization";
+
+/**
+ * Fixtures shared by the unit tests (*.test.ts next to each module).
+ * Tests override only the fields they check, so a new CleanRecord field is added here once.
+ */
+
+export const FY2024_25: Period = {
+    type: "year",
+    startDate: "2024-04-01",
+    endDate: "2025-03-31",
+    audited: null,
+    label: "FY2024-25",
+    fiscalYear: "FY2024-25",
+};
+
+export const FY2023_24: Period = {
+    type: "year",
+    startDate: "2023-04-01",
+    endDate: "2024-03-31",
+    audited: null,
+    label: "FY2023-24",
+    fiscalYear: "FY2023-24",
+};
+
+// Revenue from operations, FY2024-25, 1,000 ₹ Crores, as read from page 1
+export function makeRecord(overrides: Partial<CleanRecord> = {}): CleanRecord {
+    return {
+        statementType: "income_statement",
+        basis: null,
+        category: "Revenue",
+        subCategory: null,
+        level: 0,
+        lineItem: "Revenue from operations",
+        year: "2025",
+        period: FY2024_25,
+        value: 1000,
+        unit: "₹ Crores",
+        currency: "INR",
+        scale: "crores",
+        measure: "amount",
+        confidence: "High",
+        sourceSnippet: "",
+        page: 1,
+        rowIndex: 0,
+        reviewReason: null,
+        labelBox: null,
+        valueBox: null,
+        account: null,
+        ...overrides,
+    };
+}
+
+// An extraction of `records`, with the years and periods they cover
+export function makeExtraction(records: CleanRecord[], overrides: Partial<CleanExtraction> = {}): CleanExtraction {
+    return {
+        records,
+        yearsDetected: Array.from(new Set(records.map(r => r.year))).sort(),
+        periodsDetected: Array.from(new Map(records.map(r => [periodKey(r.period), r.period])).values()).sort(comparePeriods),
+        rejectedValues: [],
+        discrepancies: [],
+        ...overrides,
+    };
+}
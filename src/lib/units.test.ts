@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { makeRecord } from "./test-helpers";
+import { convertToScale, detectMeasure, formatUnit, parseUnitCaption } from "./units";
+
+describe("parseUnitCaption", () => {
+    it("reads currency and scale", () => {
+        assert.deepEqual(parseUnitCaption("(₹ in Crores)"), { currency: "INR", scale: "crores" });
+        assert.deepEqual(parseUnitCaption("Rs. in lakhs"), { currency: "INR", scale: "lakhs" });
+        assert.deepEqual(parseUnitCaption("All amounts in USD millions"), { currency: "USD", scale: "millions" });
+        assert.deepEqual(parseUnitCaption("(€ '000)"), { currency: "EUR", scale: "thousands" });
+    });
+
+    it("takes a currency without a scale word as units", () => {
+        assert.deepEqual(parseUnitCaption("Amounts in INR"), { currency: "INR", scale: "units" });
+    });
+
+    it("ignores text that is not a caption", () => {
+        assert.equal(parseUnitCaption("Revenue from operations"), null);
+        assert.equal(parseUnitCaption(null), null);
+    });
+});
+
+describe("detectMeasure", () => {
+    it("keeps per-share and percentage rows apart from amounts", () => {
+        assert.equal(detectMeasure("Basic earnings per equity share"), "per_share");
+        assert.equal(detectMeasure("EBITDA margin"), "percentage");
+        assert.equal(detectMeasure("Tax rate", "25.2%"), "percentage");
+        assert.equal(detectMeasure("Revenue from operations"), "amount");
+    });
+});
+
+describe("formatUnit", () => {
+    it("names the unit shown next to a value", () => {
+        assert.equal(formatUnit("INR", "crores", "amount"), "₹ Crores");
+        assert.equal(formatUnit("USD", "millions", "amount"), "$ Millions");
+        assert.equal(formatUnit("INR", "crores", "per_share"), "₹ per share");
+        assert.equal(formatUnit(null, null, "percentage"), "%");
+        assert.equal(formatUnit(null, null, "amount"), null);
+    });
+});
+
+describe("convertToScale", () => {
+    it("converts amounts without float noise", () => {
+        const [converted] = convertToScale([makeRecord({ value: 1234.5 })], "millions");
+        assert.equal(converted.value, 12345);
+        assert.equal(converted.scale, "millions");
+        assert.equal(converted.unit, "₹ Millions");
+    });
+
+    it("converts lakhs to crores", () => {
+        assert.equal(convertToScale([makeRecord({ value: 250, scale: "lakhs" })], "crores")[0].value, 2.5);
+    });
+
+    it("leaves per-share rows, unknown scales and empty values alone", () => {
+        const untouched = [
+            makeRecord({ measure: "per_share", value: 12.5, unit: "₹ per share" }),
+            makeRecord({ scale: null }),
+            makeRecord({ value: null }),
+        ];
+        assert.deepEqual(convertToScale(untouched, "millions"), untouched);
+    });
+});
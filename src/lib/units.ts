@@ -0,0 +1,101 @@
+
+import { CleanRecord, Measure, Scale } from "./schema";
+
+// Multipliers to absolute units
+export const SCALE_FACTORS: Record<Scale, number> = {
+    units: 1,
+    thousands: 1e3,
+    lakhs: 1e5,
+    millions: 1e6,
+    crores: 1e7,
+    billions: 1e9,
+};
+
+export const SCALE_LABELS: Record<Scale, string> = {
+    units: "Units",
+    thousands: "Thousands",
+    lakhs: "Lakhs",
+    millions: "Millions",
+    crores: "Crores",
+    billions: "Billions",
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = { INR: "₹", USD: "$", EUR: "€", GBP: "£" };
+
+// Order matters: "US$" must win over "$", "Rs." over the bare word "in"
+const CURRENCY_PATTERNS: [RegExp, string][] = [
+    [/₹|\brs\.?(?=\W|$)|\binr\b|\brupees?\b/i, "INR"],
+    [/\busd\b|\bus\$|\$/i, "USD"],
+    [/€|\beur\b|\beuros?\b/i, "EUR"],
+    [/£|\bgbp\b|\bpounds?\b/i, "GBP"],
+];
+
+const SCALE_PATTERNS: [RegExp, Scale][] = [
+    [/\bcrores?\b|\bcr\.?(?=\W|$)/i, "crores"],
+    [/\blakhs?\b|\blacs?\b/i, "lakhs"],
+    [/\bmillions?\b|\bmn\b|\bmio\b/i, "millions"],
+    [/\bbillions?\b|\bbn\b/i, "billions"],
+    [/\bthousands?\b|['’]000\b/i, "thousands"],
+];
+
+// A caption reads like "(₹ in Crores)", "Rs. in lakhs", "All amounts in USD millions"
+const CAPTION_HINT = /\bin\b|\bamounts?\b|\bfigures?\b/i;
+
+export interface UnitCaption {
+    currency: string | null;
+    scale: Scale | null;
+}
+
+/**
+ * Reads a unit/scale caption such as "(₹ in Crores)" or "in millions of USD".
+ * Returns null when the text does not look like a caption.
+ */
+export function parseUnitCaption(text: string | null | undefined): UnitCaption | null {
+    if (!text) return null;
+
+    const currency = CURRENCY_PATTERNS.find(([re]) => re.test(text))?.[1] ?? null;
+    const scale = SCALE_PATTERNS.find(([re]) => re.test(text))?.[1] ?? null;
+
+    // A bare scale word ("Crores") is enough; a bare currency needs "in"/"amounts" around it
+    if (scale) return { currency, scale };
+    if (currency && CAPTION_HINT.test(text)) return { currency, scale: "units" };
+    return null;
+}
+
+/**
+ * Per-share and percentage rows keep their own units instead of the table scale.
+ */
+export function detectMeasure(lineItem: string, rawValue?: unknown): Measure {
+    if (typeof rawValue === "string" && rawValue.trim().endsWith("%")) return "percentage";
+
+    const item = lineItem.toLowerCase();
+    if (/per\s+(equity\s+)?share|\beps\b|face value/.test(item)) return "per_share";
+    if (/%|\bpercent(age)?\b|\bmargin\b/.test(item)) return "percentage";
+    return "amount";
+}
+
+// Display unit: "₹ Crores", "USD Millions", "₹ per share", "%"
+export function formatUnit(currency: string | null, scale: Scale | null, measure: Measure): string | null {
+    const symbol = currency ? (CURRENCY_SYMBOLS[currency] ?? currency) : null;
+
+    if (measure === "percentage") return "%";
+    if (measure === "per_share") return symbol ? `${symbol} per share` : "per share";
+    if (!scale) return symbol;
+    return symbol ? `${symbol} ${SCALE_LABELS[scale]}` : SCALE_LABELS[scale];
+}
+
+/**
+ * Converts every amount record to one target scale (e.g. everything to Crores).
+ * Per-share, percentage and unknown-scale records are returned unchanged.
+ */
+export function convertToScale<T extends CleanRecord>(records: T[], target: Scale): T[] {
+    return records.map(r => {
+        if (r.measure !== "amount" || !r.scale || r.scale === target || r.value === null) return r;
+
+        const factor = SCALE_FACTORS[r.scale] / SCALE_FACTORS[target];
+        // Round away float noise (1234.5 Cr -> 12345 Mn, not 12344.999999)
+        const value = Math.round(r.value * factor * 1e6) / 1e6;
+
+        return { ...r, value, scale: target, unit: formatUnit(r.currency, target, r.measure) };
+    });
+}
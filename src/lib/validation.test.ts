@@ -0,0 +1,99 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CleanRecord, StatementType } from "./schema";
+import { makeExtraction, makeRecord } from "./test-helpers";
+import { validateExtraction } from "./validation";
+
+// Rows of one table in document order: [label, value, heading, level]
+function table(statementType: StatementType, rows: [string, number, string | null, number][]): CleanRecord[] {
+    return rows.map(([lineItem, value, subCategory, level], rowIndex) =>
+        makeRecord({ statementType, basis: "standalone", category: "Other", subCategory, level, lineItem, value, rowIndex }));
+}
+
+const validate = (records: CleanRecord[]) => validateExtraction(makeExtraction(records));
+
+const INCOME_STATEMENT: [string, number, string | null, number][] = [
+    ["Revenue from operations", 1000, "Income", 1],
+    ["Other income", 50, "Income", 1],
+    ["Total income", 1050, "Income", 1],
+    ["Cost of materials consumed", 600, "Expenses", 1],
+    ["Employee benefits expense", 200, "Expenses", 1],
+    ["Total expenses", 800, "Expenses", 1],
+    ["Profit before tax", 250, null, 0],
+    ["Current tax", 60, "Tax expense", 1],
+    ["Deferred tax", 3, "Tax expense", 1],
+    ["Total tax expense", 63, "Tax expense", 1],
+    ["Profit for the year", 187, null, 0],
+];
+
+describe("validateExtraction", () => {
+    it("passes a statement that adds up", () => {
+        const result = validate(table("income_statement", INCOME_STATEMENT));
+        assert.deepEqual(result.discrepancies, []);
+        assert.ok(result.records.every(r => r.confidence === "High"));
+    });
+
+    it("checks a total against the rows under its own heading only", () => {
+        const rows = INCOME_STATEMENT.map(([label, value, ...rest]): [string, number, string | null, number] =>
+            [label, label === "Total expenses" ? 900 : value, ...rest]);
+        const result = validate(table("income_statement", rows));
+
+        const subtotal = result.discrepancies.find(d => d.check === "subtotal");
+        assert.equal(subtotal?.description, "Total expenses ≠ sum of 2 rows under Expenses");
+        assert.equal(subtotal?.expected, 800);
+        assert.equal(subtotal?.actual, 900);
+        assert.deepEqual(subtotal?.lineItems, ["Total expenses", "Cost of materials consumed", "Employee benefits expense"]);
+    });
+
+    it("downgrades the rows involved in a failed check", () => {
+        const rows = INCOME_STATEMENT.map(([label, value, ...rest]): [string, number, string | null, number] =>
+            [label, label === "Profit before tax" ? 260 : value, ...rest]);
+        const result = validate(table("income_statement", rows));
+
+        assert.ok(result.discrepancies.some(d => d.check === "identity" && d.description === "Total income - Total expenses = Profit before tax"));
+        assert.equal(result.records.find(r => r.lineItem === "Profit before tax")?.confidence, "Medium");
+        assert.equal(result.records.find(r => r.lineItem === "Current tax")?.confidence, "High");
+        assert.match(result.notes ?? "", /\[identity\] Total income - Total expenses = Profit before tax \(Standalone, FY2024-25\)/);
+    });
+
+    it("allows for rounding of every printed value", () => {
+        const result = validate(table("income_statement", [
+            ["Revenue from operations", 10.4, "Income", 1],
+            ["Other income", 0.4, "Income", 1],
+            ["Total income", 10.9, "Income", 1],
+        ]));
+        assert.deepEqual(result.discrepancies, []);
+    });
+
+    it("sums subtotals one level down into a grand total", () => {
+        const balanceSheet = table("balance_sheet", [
+            ["Property, plant and equipment", 500, "Non-current assets", 2],
+            ["Investments", 100, "Non-current assets", 2],
+            ["Total non-current assets", 600, "Non-current assets", 2],
+            ["Inventories", 200, "Current assets", 2],
+            ["Trade receivables", 150, "Current assets", 2],
+            ["Total current assets", 350, "Current assets", 2],
+            ["Total assets", 950, "Assets", 1],
+            ["Equity share capital", 100, "Equity", 1],
+            ["Other equity", 650, "Equity", 1],
+            ["Total equity", 750, "Equity", 1],
+            ["Trade payables", 200, "Liabilities", 1],
+            ["Total equity and liabilities", 950, null, 0],
+        ]);
+        assert.deepEqual(validate(balanceSheet).discrepancies, []);
+
+        balanceSheet[6].value = 960;
+        const found = validate(balanceSheet).discrepancies.map(d => d.description);
+        assert.ok(found.includes("Total assets ≠ sum of 2 rows under Assets"));
+        assert.ok(found.includes("Total assets = Total equity and liabilities"));
+    });
+
+    it("skips totals without a heading", () => {
+        const result = validate(table("income_statement", [
+            ["Revenue from operations", 1000, null, 0],
+            ["Other income", 50, null, 0],
+            ["Total income", 2000, null, 0],
+        ]));
+        assert.deepEqual(result.discrepancies, []);
+    });
+});
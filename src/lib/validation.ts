@@ -0,0 +1,219 @@
+
+import { Basis, BASIS_LABELS, CleanExtraction, CleanRecord, Discrepancy, StatementType } from "./schema";
+import { periodKey } from "./normalization";
+
+/**
+ * Validation Stage: arithmetic cross-checks on normalized records.
+ * Deterministic. No AI.
+ *
+ * 1. Subtotals: "Total ..." rows must equal the sum of the rows under their heading.
+ * 2. Identities: e.g. Total income - Total expenses = Profit before tax.
+ * Every failed check downgrades the confidence of the records involved.
+ */
+
+export interface ValidationOptions {
+    // Allowed difference as a share of the expected value, on top of rounding (default 0.05%)
+    relativeTolerance?: number;
+}
+
+// "Total comprehensive income" adds OCI to profit, not the rows printed above it
+const TOTAL_ROW = /^\s*total\b/i;
+const NOT_A_SUBTOTAL = /comprehensive income/i;
+
+interface Identity {
+    description: string;
+    // Terms of "lhs = rhs"; sign +1 adds the row, -1 subtracts it
+    lhs: { pattern: RegExp, sign: 1 | -1 }[];
+    rhs: RegExp;
+    // Only applies when no row matches this (e.g. an exceptional-items line changes the sum)
+    unless?: RegExp;
+}
+
+const IDENTITIES: Record<StatementType, Identity[]> = {
+    income_statement: [
+        {
+            description: "Total income - Total expenses = Profit before exceptional items and tax",
+            lhs: [{ pattern: /^total (income|revenue)\b/i, sign: 1 }, { pattern: /^total expenses\b/i, sign: -1 }],
+            rhs: /profit.*before exceptional.*tax/i,
+        },
+        {
+            description: "Total income - Total expenses = Profit before tax",
+            lhs: [{ pattern: /^total (income|revenue)\b/i, sign: 1 }, { pattern: /^total expenses\b/i, sign: -1 }],
+            rhs: /^(net )?profit.*before tax/i,
+            unless: /exceptional/i,
+        },
+        {
+            description: "Profit before tax - Tax expense = Profit for the period",
+            lhs: [{ pattern: /^(net )?profit.*before tax/i, sign: 1 }, { pattern: /^(total )?tax expenses?\b/i, sign: -1 }],
+            rhs: /^(net )?profit.*for the (year|period)/i,
+        },
+    ],
+    balance_sheet: [
+        {
+            description: "Total assets = Total equity and liabilities",
+            lhs: [{ pattern: /^total assets\b/i, sign: 1 }],
+            rhs: /^total (equity and liabilities|liabilities and equity)\b/i,
+        },
+    ],
+    cash_flow: [
+        {
+            description: "Operating + Investing + Financing = Net change in cash",
+            lhs: [
+                { pattern: /net cash.*operating/i, sign: 1 },
+                { pattern: /net cash.*investing/i, sign: 1 },
+                { pattern: /net cash.*financing/i, sign: 1 },
+            ],
+            rhs: /^net (increase|decrease|change).*cash/i,
+        },
+    ],
+};
+
+const decimalsOf = (n: number) => (String(n).split(".")[1] || "").length;
+
+// Each printed value is rounded to its last digit, so n values can be off by n half-units
+function roundingTolerance(values: number[], expected: number, relative: number): number {
+    const decimals = Math.max(0, ...values.map(decimalsOf));
+    return values.length * 0.5 * Math.pow(10, -decimals) + Math.abs(expected) * relative;
+}
+
+const round = (n: number) => Math.round(n * 1e6) / 1e6;
+
+/**
+ * A "Total ..." row sums the rows under its own heading (same `subCategory` and `level`) since that
+ * heading's last total, plus the subtotals one level down since the previous total at its level:
+ * "Total current assets" = the rows under "Current assets"; "Total assets" = "Total non-current assets"
+ * + "Total current assets". Totals without a heading are not checked: their rows cannot be told apart.
+ */
+function checkSubtotals(rows: CleanRecord[], relative: number): Discrepancy[] {
+    const discrepancies: Discrepancy[] = [];
+    const pending = new Map<string, CleanRecord[]>(); // heading + level -> plain rows since its last total
+    const totals: CleanRecord[] = [];                 // every total so far, in document order
+
+    const headingKey = (row: CleanRecord) => `${row.level}|${row.subCategory}`;
+
+    for (const row of rows) {
+        if (!TOTAL_ROW.test(row.lineItem) || NOT_A_SUBTOTAL.test(row.lineItem)) {
+            pending.set(headingKey(row), [...(pending.get(headingKey(row)) ?? []), row]);
+            continue;
+        }
+
+        const plain = pending.get(headingKey(row)) ?? [];
+        pending.delete(headingKey(row));
+
+        // Subtotals one level down, back to the previous total at this level or above
+        const subtotals: CleanRecord[] = [];
+        for (let i = totals.length - 1; i >= 0 && totals[i].level > row.level; i--) {
+            if (totals[i].level === row.level + 1) subtotals.unshift(totals[i]);
+        }
+        totals.push(row);
+
+        const components = [...plain, ...subtotals];
+        if (!row.subCategory || components.length < 2) continue;
+
+        const expected = round(components.reduce((sum, c) => sum + (c.value ?? 0), 0));
+        const actual = row.value ?? 0;
+        const tolerance = roundingTolerance(components.map(c => c.value ?? 0), expected, relative);
+
+        if (Math.abs(actual - expected) > tolerance) {
+            discrepancies.push({
+                check: "subtotal",
+                description: `${row.lineItem} ≠ sum of ${components.length} rows under ${row.subCategory}`,
+                statementType: row.statementType,
+                basis: row.basis,
+                period: row.period.label,
+                expected,
+                actual,
+                difference: round(actual - expected),
+                tolerance: round(tolerance),
+                lineItems: [row.lineItem, ...components.map(c => c.lineItem)],
+            });
+        }
+    }
+
+    return discrepancies;
+}
+
+function checkIdentities(statementType: StatementType, basis: Basis | null, rows: CleanRecord[], relative: number): Discrepancy[] {
+    const discrepancies: Discrepancy[] = [];
+    const find = (pattern: RegExp) => rows.find(r => pattern.test(r.lineItem));
+
+    for (const identity of IDENTITIES[statementType]) {
+        if (identity.unless && rows.some(r => identity.unless!.test(r.lineItem))) continue;
+
+        const terms = identity.lhs.map(t => ({ row: find(t.pattern), sign: t.sign }));
+        const result = find(identity.rhs);
+        if (!result || terms.some(t => !t.row)) continue; // identity does not apply to this table
+
+        const expected = round(terms.reduce((sum, t) => sum + t.sign * (t.row!.value ?? 0), 0));
+        const actual = result.value ?? 0;
+        const tolerance = roundingTolerance(terms.map(t => t.row!.value ?? 0), expected, relative);
+
+        if (Math.abs(actual - expected) > tolerance) {
+            discrepancies.push({
+                check: "identity",
+                description: identity.description,
+                statementType,
+                basis,
+                period: result.period.label,
+                expected,
+                actual,
+                difference: round(actual - expected),
+                tolerance: round(tolerance),
+                lineItems: [result.lineItem, ...terms.map(t => t.row!.lineItem)],
+            });
+        }
+    }
+
+    return discrepancies;
+}
+
+const DOWNGRADE: Record<CleanRecord["confidence"], CleanRecord["confidence"]> = {
+    High: "Medium",
+    Medium: "Low",
+    Low: "Low",
+};
+
+/**
+ * Runs every check per statement and period, downgrades the records involved
+ * and lists the discrepancies (also summarised in `notes`).
+ */
+export function validateExtraction(extraction: Omit<CleanExtraction, "discrepancies">, options: ValidationOptions = {}): CleanExtraction {
+    const relative = options.relativeTolerance ?? 0.0005;
+    const discrepancies: Discrepancy[] = [];
+    const flagged = new Set<CleanRecord>();
+
+    // Group amounts by statement + basis + period, keeping document order (page, then row).
+    // Standalone and Consolidated tables share line items, so they must never be summed together.
+    const groups = new Map<string, CleanRecord[]>();
+    extraction.records
+        .filter(r => r.measure === "amount" && r.value !== null)
+        .forEach(r => {
+            const key = `${r.statementType}|${r.basis}|${periodKey(r.period)}`;
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key)!.push(r);
+        });
+
+    groups.forEach(rows => {
+        rows.sort((a, b) => (a.page ?? 0) - (b.page ?? 0) || (a.rowIndex ?? 0) - (b.rowIndex ?? 0));
+        const { statementType, basis } = rows[0];
+
+        const found = [...checkSubtotals(rows, relative), ...checkIdentities(statementType, basis, rows, relative)];
+        found.forEach(d => rows.filter(r => d.lineItems.includes(r.lineItem)).forEach(r => flagged.add(r)));
+        discrepancies.push(...found);
+    });
+
+    const records = extraction.records.map(r =>
+        flagged.has(r) ? { ...r, confidence: DOWNGRADE[r.confidence] } : r
+    );
+
+    const summary = discrepancies.map(d =>
+        `[${d.check}] ${d.description} (${[d.basis && BASIS_LABELS[d.basis], d.period].filter(Boolean).join(", ")}): expected ${d.expected}, found ${d.actual}`
+    );
+
+    return {
+        ...extraction,
+        records,
+        discrepancies,
+        notes: [extraction.notes, ...summary].filter(Boolean).join("\n"),
+    };
+}